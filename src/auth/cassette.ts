@@ -0,0 +1,476 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Record and replay HttpClient traffic
+ *
+ * In record mode the client talks to the tenant as usual and each
+ * request/response pair is kept in a cassette; save() writes it as JSON. In
+ * replay mode responses come from the cassette and nothing is sent. Error
+ * responses replay as the same typed errors (NotFoundError, ...).
+ *
+ * Cassettes are sanitized before they are kept, so they can be committed:
+ * credential headers (Authorization, Cookie, ...) are dropped, values of
+ * secret-looking fields (token, password, secret, private_key, ...) in
+ * bodies and query strings become `[REDACTED]`, and the tenant name is
+ * replaced by `example-tenant` everywhere. Incoming requests are sanitized
+ * the same way before matching, so replay works with any credentials.
+ *
+ * Requests match recorded entries on method, path and query by default.
+ * Identical requests replay their entries in recorded order; once used up,
+ * the last one repeats. Unmatched requests go to the network, or fail with
+ * CassetteMismatchError in strict mode.
+ *
+ * @example Regression test
+ * ```typescript
+ * // Record once against a real tenant
+ * const cassette = await Cassette.load("tests/cassettes/namespaces.json", { mode: "record" });
+ * const httpClient = createHttpClient(credentialManager, { cassette });
+ * await listNamespaces(httpClient);
+ * await cassette.save();
+ *
+ * // Replay in CI, without network access
+ * const cassette = await Cassette.load("tests/cassettes/namespaces.json", {
+ *   mode: "replay",
+ *   strict: true,
+ * });
+ * ```
+ *
+ * @module cassette
+ * @since 1.5.0
+ * @packageDocumentation
+ */
+
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import { Readable } from "stream";
+import { isDeepStrictEqual } from "util";
+import axios, {
+  AxiosError,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import { logger } from "../utils/logging.js";
+import { CassetteMismatchError, ConfigurationError } from "../utils/errors.js";
+
+/**
+ * Cassette mode
+ */
+export type CassetteMode = "record" | "replay";
+
+/**
+ * Request fields compared when matching
+ */
+export type CassetteMatchField = "method" | "path" | "query" | "body";
+
+/**
+ * Query parameters (repeated parameters become arrays)
+ */
+export type CassetteQuery = Record<string, string | string[]>;
+
+/**
+ * Recorded request (sanitized)
+ */
+export interface CassetteRequest {
+  /** HTTP method (upper case) */
+  method: string;
+  /** URL path, including the API base path */
+  path: string;
+  /** Query parameters */
+  query: CassetteQuery;
+  /** Request headers, without credentials */
+  headers: Record<string, string>;
+  /** Parsed JSON body, or the body as text */
+  body?: unknown;
+}
+
+/**
+ * Recorded response (sanitized)
+ */
+export interface CassetteResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  /** Response body: JSON value, text, or base64 for binary content */
+  body?: unknown;
+  /** How body is stored */
+  encoding: "json" | "text" | "base64";
+}
+
+/**
+ * A request/response pair
+ */
+export interface CassetteEntry {
+  request: CassetteRequest;
+  response: CassetteResponse;
+  /** ISO timestamp of the recording */
+  recordedAt: string;
+}
+
+/**
+ * Cassette options
+ */
+export interface CassetteOptions {
+  /** Record real traffic or replay the cassette */
+  mode: CassetteMode;
+  /** Request fields that must be equal (default: method, path, query) */
+  match?: CassetteMatchField[];
+  /** Extra match condition, e.g. on a header */
+  matchRequest?: (request: CassetteRequest, entry: CassetteEntry) => boolean;
+  /** Fail unmatched requests instead of sending them (replay only; default: false) */
+  strict?: boolean;
+  /** More body and query fields whose values are redacted */
+  redactFields?: string[];
+  /** Final sanitization step for recorded entries (e.g. mask e-mail addresses) */
+  sanitize?: (entry: CassetteEntry) => CassetteEntry;
+}
+
+/**
+ * Cassette file contents
+ */
+interface CassetteFile {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+/** Replacement for the tenant name in recorded traffic */
+export const TENANT_PLACEHOLDER = "example-tenant";
+
+const REDACTED = "[REDACTED]";
+const SENSITIVE_FIELD = /token|password|passphrase|secret|private_?key|api_?key/i;
+const SENSITIVE_HEADER = /^(authorization|proxy-authorization|cookie|set-cookie|x-api-key)$|token/i;
+/** Headers that describe the recorded bytes, not the replayed ones */
+const DROPPED_RESPONSE_HEADERS = new Set(["content-length", "transfer-encoding", "content-encoding"]);
+const DEFAULT_MATCH: CassetteMatchField[] = ["method", "path", "query"];
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * A recorded HTTP exchange store for HttpClient
+ */
+export class Cassette {
+  /** Cassette file */
+  readonly path: string;
+  readonly mode: CassetteMode;
+  private readonly options: CassetteOptions;
+  private readonly recorded: CassetteEntry[];
+  private readonly played = new Set<CassetteEntry>();
+
+  /**
+   * @param path - Cassette file
+   * @param options - Mode, matching and sanitization options
+   * @param entries - Entries to replay
+   */
+  constructor(path: string, options: CassetteOptions, entries: CassetteEntry[] = []) {
+    this.path = path;
+    this.mode = options.mode;
+    this.options = options;
+    this.recorded = [...entries];
+  }
+
+  /**
+   * Open a cassette
+   * Replay mode reads the file; record mode starts empty and overwrites it on save().
+   *
+   * @throws {ConfigurationError} If a replayed cassette is missing or invalid
+   */
+  static async load(path: string, options: CassetteOptions): Promise<Cassette> {
+    if (options.mode === "record") {
+      return new Cassette(path, options);
+    }
+
+    let data: string;
+    try {
+      data = await fs.readFile(path, "utf-8");
+    } catch {
+      throw new ConfigurationError(
+        `Cassette not found: ${path} - record it first with mode "record"`
+      );
+    }
+
+    try {
+      const parsed = JSON.parse(data) as Partial<CassetteFile>;
+      if (parsed.version !== 1 || !Array.isArray(parsed.entries)) {
+        throw new Error("expected { version: 1, entries: [...] }");
+      }
+      return new Cassette(path, options, parsed.entries);
+    } catch (error) {
+      throw new ConfigurationError(`Cassette is not valid: ${path}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Recorded (or loaded) entries, in order
+   */
+  get entries(): readonly CassetteEntry[] {
+    return this.recorded;
+  }
+
+  /**
+   * Entries not replayed yet
+   * Check it is empty at the end of a test to catch requests that were not made.
+   */
+  unplayed(): CassetteEntry[] {
+    return this.recorded.filter(entry => !this.played.has(entry));
+  }
+
+  /**
+   * Write the cassette file
+   */
+  async save(): Promise<void> {
+    const file: CassetteFile = { version: 1, entries: this.recorded };
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    await fs.writeFile(this.path, `${JSON.stringify(file, null, 2)}\n`, { mode: 0o600 });
+    logger.info("Cassette saved", { path: this.path, entries: this.recorded.length });
+  }
+
+  /**
+   * Create the Axios adapter that records or replays requests
+   *
+   * @param tenant - Tenant name to mask
+   * @param network - Adapter for real requests (default: Axios's default adapter)
+   */
+  createAdapter(tenant: string | null, network?: AxiosAdapter): AxiosAdapter {
+    const send = (config: InternalAxiosRequestConfig): Promise<AxiosResponse> =>
+      (network ?? axios.getAdapter(axios.defaults.adapter))(config);
+
+    return async config => {
+      const request = this.describeRequest(config, tenant);
+
+      if (this.mode === "replay") {
+        const entry = this.findEntry(request);
+        if (entry) {
+          this.played.add(entry);
+          return this.replay(entry, config);
+        }
+        if (this.options.strict) {
+          throw new CassetteMismatchError(
+            `No cassette entry matches ${request.method} ${request.path} (${this.path})`,
+            request.method,
+            request.path,
+            { query: request.query }
+          );
+        }
+        logger.warn("No cassette entry matches request, sending it", {
+          method: request.method,
+          path: request.path,
+        });
+        return send(config);
+      }
+
+      try {
+        const response = await send(config);
+        return await this.record(request, response, tenant);
+      } catch (error) {
+        // Error responses are recorded too, so they replay as the same errors
+        if (axios.isAxiosError(error) && error.response) {
+          error.response = await this.record(request, error.response, tenant);
+        }
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Find the entry for a request: the first unplayed match, else the last match
+   */
+  private findEntry(request: CassetteRequest): CassetteEntry | undefined {
+    const fields = this.options.match ?? DEFAULT_MATCH;
+    const matches = this.recorded.filter(
+      entry =>
+        fields.every(field => isDeepStrictEqual(request[field], entry.request[field])) &&
+        (this.options.matchRequest?.(request, entry) ?? true)
+    );
+    return matches.find(entry => !this.played.has(entry)) ?? matches.at(-1);
+  }
+
+  /**
+   * Keep a sanitized entry and return the response with a replayable body
+   */
+  private async record(
+    request: CassetteRequest,
+    response: AxiosResponse,
+    tenant: string | null
+  ): Promise<AxiosResponse> {
+    let data: unknown = response.data;
+    if (data instanceof Readable) {
+      // Streams can only be read once: buffer them and hand back a new stream
+      const chunks: Buffer[] = [];
+      for await (const chunk of data) {
+        chunks.push(Buffer.from(chunk as Buffer));
+      }
+      data = Buffer.concat(chunks);
+      response = { ...response, data: Readable.from([data]) };
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(response.headers ?? {})) {
+      const key = name.toLowerCase();
+      if (value !== undefined && value !== null && !DROPPED_RESPONSE_HEADERS.has(key)) {
+        if (!SENSITIVE_HEADER.test(key)) {
+          headers[key] = this.mask(Array.isArray(value) ? value.join(", ") : String(value), tenant);
+        }
+      }
+    }
+
+    const { body, encoding } = this.encodeBody(data, tenant);
+    let entry: CassetteEntry = {
+      request,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body,
+        encoding,
+      },
+      recordedAt: new Date().toISOString(),
+    };
+    entry = this.options.sanitize?.(entry) ?? entry;
+    this.recorded.push(entry);
+    return response;
+  }
+
+  /**
+   * Build the response for a recorded entry, settled like a real one
+   */
+  private replay(entry: CassetteEntry, config: InternalAxiosRequestConfig): AxiosResponse {
+    const { body, encoding } = entry.response;
+    const raw =
+      encoding === "base64"
+        ? Buffer.from(String(body ?? ""), "base64")
+        : encoding === "json"
+          ? JSON.stringify(body)
+          : String(body ?? "");
+
+    let data: unknown = raw;
+    if (config.responseType === "arraybuffer") {
+      data = Buffer.from(raw);
+    } else if (config.responseType === "stream") {
+      data = Readable.from([Buffer.from(raw)]);
+    } else if (Buffer.isBuffer(raw)) {
+      data = raw.toString("utf-8");
+    }
+
+    const response: AxiosResponse = {
+      data,
+      status: entry.response.status,
+      statusText: entry.response.statusText,
+      headers: { ...entry.response.headers },
+      config,
+      request: {},
+    };
+
+    // Same outcome as Axios's own adapters for error statuses
+    const validateStatus = config.validateStatus;
+    if (!validateStatus || validateStatus(response.status)) {
+      return response;
+    }
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  }
+
+  /**
+   * Describe a request the way it is recorded and matched
+   */
+  private describeRequest(config: InternalAxiosRequestConfig, tenant: string | null): CassetteRequest {
+    const url = new URL(axios.getUri(config));
+
+    const query: CassetteQuery = {};
+    for (const name of new Set(url.searchParams.keys())) {
+      const values = url.searchParams.getAll(name);
+      query[name] = values.length === 1 ? values[0] : values;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(config.headers?.toJSON() ?? {})) {
+      const key = name.toLowerCase();
+      if (value !== undefined && value !== null && value !== false && !SENSITIVE_HEADER.test(key)) {
+        headers[key] = this.mask(String(value), tenant);
+      }
+    }
+
+    const request: CassetteRequest = {
+      method: (config.method ?? "get").toUpperCase(),
+      path: this.mask(url.pathname, tenant),
+      query: this.sanitize(query, tenant) as CassetteQuery,
+      headers,
+    };
+    if (config.data !== undefined && config.data !== null && config.data !== "") {
+      request.body = this.encodeBody(config.data, tenant).body;
+    }
+    return request;
+  }
+
+  /**
+   * Store a body as JSON when it parses, else as text or base64
+   */
+  private encodeBody(
+    data: unknown,
+    tenant: string | null
+  ): { body?: unknown; encoding: CassetteResponse["encoding"] } {
+    if (data === undefined || data === null || data === "") {
+      return { encoding: "text" };
+    }
+    if (Buffer.isBuffer(data) || data instanceof ArrayBuffer) {
+      const buffer = Buffer.from(data as Buffer);
+      const text = buffer.toString("utf-8");
+      if (!Buffer.from(text, "utf-8").equals(buffer)) {
+        return { body: buffer.toString("base64"), encoding: "base64" };
+      }
+      data = text;
+    }
+    if (typeof data === "string") {
+      try {
+        return { body: this.sanitize(JSON.parse(data), tenant), encoding: "json" };
+      } catch {
+        return { body: this.mask(data, tenant), encoding: "text" };
+      }
+    }
+    return { body: this.sanitize(data, tenant), encoding: "json" };
+  }
+
+  /**
+   * Redact secret fields and mask the tenant in a JSON value
+   */
+  private sanitize(value: unknown, tenant: string | null): unknown {
+    if (typeof value === "string") {
+      return this.mask(value, tenant);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.sanitize(item, tenant));
+    }
+    if (value && typeof value === "object") {
+      const extra = this.options.redactFields ?? [];
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          this.mask(key, tenant),
+          SENSITIVE_FIELD.test(key) || extra.includes(key) ? REDACTED : this.sanitize(item, tenant),
+        ])
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Replace the tenant name where it is not part of a longer name
+   */
+  private mask(value: string, tenant: string | null): string {
+    if (!tenant) {
+      return value;
+    }
+    const pattern = new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(tenant)}(?![A-Za-z0-9])`, "gi");
+    return value.replace(pattern, TENANT_PLACEHOLDER);
+  }
+}
@@ -0,0 +1,178 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Certificate material helpers
+ *
+ * Validates P12 bundles at load time so problems surface as actionable
+ * AuthenticationErrors instead of low-level TLS failures on the first request,
+ * and parses client certificates so expiry warnings use the real validity dates.
+ *
+ * @module certificates
+ * @since 1.5.0
+ * @packageDocumentation
+ */
+
+import { TLSSocket, createSecureContext, type SecureContext } from "tls";
+import { Socket } from "net";
+import { X509Certificate, createPrivateKey } from "crypto";
+import { AuthenticationError } from "../utils/errors.js";
+
+/**
+ * Summary of a client certificate
+ */
+export interface CertificateInfo {
+  /** Subject distinguished name (e.g. "CN=user, O=tenant") */
+  subject: string;
+  /** Issuer distinguished name */
+  issuer: string;
+  /** Serial number (hex) */
+  serialNumber: string;
+  /** Start of the validity period */
+  notBefore: Date;
+  /** End of the validity period */
+  notAfter: Date;
+  /** SHA-256 fingerprint */
+  fingerprint256: string;
+  /** Whether the private key belongs to the certificate */
+  keyMatches: boolean;
+}
+
+/**
+ * Open a P12 bundle with its password
+ *
+ * @param pfx - P12 bundle contents
+ * @param passphrase - Bundle password (if any)
+ * @returns TLS secure context holding the bundle's certificate and key
+ * @throws {AuthenticationError} If the password is wrong/missing or the bundle is unreadable
+ */
+export function openP12Bundle(pfx: Buffer, passphrase?: string | null): SecureContext {
+  try {
+    return createSecureContext({ pfx, passphrase: passphrase ?? undefined });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const lower = message.toLowerCase();
+
+    if (lower.includes("mac verify failure") || lower.includes("bad decrypt")) {
+      throw new AuthenticationError(
+        passphrase
+          ? `P12 certificate password is incorrect.
+
+SOLUTIONS:
+1. Check F5XC_P12_PASSWORD or the profile's p12Password
+2. Re-download the API credential from the F5 XC console if the password is lost`
+          : `P12 certificate is password-protected but no password was provided.
+
+SOLUTIONS:
+1. Set F5XC_P12_PASSWORD=<password>
+2. Or add p12Password to the profile (a secret://store/name reference is supported)`,
+        { originalError: message, passwordProvided: !!passphrase }
+      );
+    }
+
+    if (lower.includes("unsupported")) {
+      throw new AuthenticationError(
+        `P12 certificate uses an encryption algorithm not supported by this Node.js/OpenSSL build.
+
+SOLUTIONS:
+1. Re-export the bundle with modern encryption:
+   openssl pkcs12 -in old.p12 -nodes | openssl pkcs12 -export -out new.p12
+2. Or use separate cert/key PEM files (F5XC_CERT / F5XC_KEY)`,
+        { originalError: message }
+      );
+    }
+
+    throw new AuthenticationError(
+      `P12 certificate could not be read: ${message}
+
+Verify the file is a valid PKCS#12 bundle (F5XC_P12_BUNDLE).`,
+      { originalError: message }
+    );
+  }
+}
+
+/**
+ * Format a multi-line X.509 name as a single line
+ */
+function formatName(name: string): string {
+  return name.split("\n").filter(Boolean).join(", ");
+}
+
+/**
+ * Summarize a parsed certificate
+ */
+function summarize(x509: X509Certificate, keyMatches: boolean): CertificateInfo {
+  return {
+    subject: formatName(x509.subject),
+    issuer: formatName(x509.issuer),
+    serialNumber: x509.serialNumber,
+    notBefore: new Date(x509.validFrom),
+    notAfter: new Date(x509.validTo),
+    fingerprint256: x509.fingerprint256,
+    keyMatches,
+  };
+}
+
+/**
+ * Inspect a PEM (or DER) certificate and optionally its private key
+ *
+ * @param cert - Certificate content
+ * @param key - Private key content (PEM); keyMatches is false when omitted or unreadable
+ * @returns Certificate summary
+ * @throws {AuthenticationError} If the certificate cannot be parsed
+ */
+export function inspectCertificate(cert: string | Buffer, key?: string | null): CertificateInfo {
+  let x509: X509Certificate;
+  try {
+    x509 = new X509Certificate(cert);
+  } catch (error) {
+    throw new AuthenticationError(
+      `Certificate could not be parsed: ${error instanceof Error ? error.message : String(error)}
+
+Verify the certificate file is PEM-encoded (F5XC_CERT).`
+    );
+  }
+
+  let keyMatches = false;
+  if (key) {
+    try {
+      keyMatches = x509.checkPrivateKey(createPrivateKey(key));
+    } catch {
+      // Unreadable key - reported as a mismatch
+    }
+  }
+
+  return summarize(x509, keyMatches);
+}
+
+/**
+ * Inspect the client certificate inside a P12 bundle
+ *
+ * @param pfx - P12 bundle contents
+ * @param passphrase - Bundle password (if any)
+ * @returns Certificate summary
+ * @throws {AuthenticationError} If the bundle cannot be opened
+ */
+export function inspectP12Bundle(pfx: Buffer, passphrase?: string | null): CertificateInfo {
+  // An unconnected TLS socket reports its local certificate through the public
+  // getCertificate() API; no handshake takes place
+  const socket = new TLSSocket(new Socket(), { secureContext: openP12Bundle(pfx, passphrase) });
+  let certificate: ReturnType<TLSSocket["getCertificate"]>;
+  try {
+    certificate = typeof socket.getCertificate === "function" ? socket.getCertificate() : null;
+  } finally {
+    socket.destroy();
+  }
+
+  if (!certificate || Object.keys(certificate).length === 0) {
+    throw new AuthenticationError("P12 certificate bundle does not contain a certificate");
+  }
+  const der = "raw" in certificate ? certificate.raw : undefined;
+  if (!Buffer.isBuffer(der)) {
+    throw new AuthenticationError(
+      "The certificate in the P12 bundle could not be read with this Node.js version"
+    );
+  }
+
+  // OpenSSL refuses to load a bundle whose key does not match its certificate
+  return summarize(new X509Certificate(der), true);
+}
@@ -0,0 +1,218 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Circuit breaker for tenant API endpoints
+ *
+ * After a run of consecutive failures (network errors, timeouts, 5xx) the
+ * circuit opens and requests fail fast with CircuitOpenError instead of
+ * waiting out timeouts and retries. After a cooldown one trial request is let
+ * through (half-open); its outcome closes the circuit or opens it again.
+ *
+ * ```
+ * closed --(failureThreshold failures)--> open --(cooldown)--> half-open
+ *   ^                                                            |
+ *   +------------------------(trial succeeds)--------------------+
+ * ```
+ *
+ * @module circuit-breaker
+ * @since 1.5.0
+ * @packageDocumentation
+ */
+
+import { logger } from "../utils/logging.js";
+import { CircuitOpenError } from "../utils/errors.js";
+import { sanitizeUrlForLog } from "../utils/path-security.js";
+
+/**
+ * Circuit state
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Circuit breaker options
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Time the circuit stays open before a trial request, in milliseconds (default: 30000) */
+  cooldownMs?: number;
+}
+
+/**
+ * Payload of a circuit state change
+ */
+export interface CircuitStateChangeEvent {
+  /** Tenant API URL the circuit protects */
+  endpoint: string;
+  /** Previous state */
+  from: CircuitState;
+  /** New state */
+  to: CircuitState;
+  /** Consecutive failures at the time of the change */
+  failures: number;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 30000;
+
+/**
+ * Circuit breaker for one endpoint
+ *
+ * Callers check beforeAttempt() and report each attempt's outcome with
+ * recordSuccess(), recordFailure() or recordInconclusive().
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+
+  /**
+   * @param endpoint - Tenant API URL
+   * @param options - Breaker options
+   * @param onStateChange - Called on every state transition
+   */
+  constructor(
+    readonly endpoint: string,
+    options: CircuitBreakerOptions = {},
+    private readonly onStateChange: (event: CircuitStateChangeEvent) => void = () => {}
+  ) {
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+  }
+
+  /**
+   * Current state (an open circuit whose cooldown has passed reports half-open)
+   */
+  getState(): CircuitState {
+    if (this.state === "open" && this.remainingCooldown() === 0) {
+      return "half-open";
+    }
+    return this.state;
+  }
+
+  /**
+   * Consecutive failures recorded since the last success
+   */
+  getFailures(): number {
+    return this.failures;
+  }
+
+  /**
+   * Fail fast while open, without claiming the half-open trial
+   * Use before queueing work that will call beforeAttempt() later.
+   *
+   * @throws {CircuitOpenError} While open and cooling down
+   */
+  throwIfOpen(): void {
+    if (this.state === "open") {
+      const remaining = this.remainingCooldown();
+      if (remaining > 0) {
+        throw this.openError(remaining);
+      }
+    }
+  }
+
+  /**
+   * Admit an attempt or fail fast
+   *
+   * @throws {CircuitOpenError} While open, or while a half-open trial is in flight
+   */
+  beforeAttempt(): void {
+    if (this.state === "open") {
+      const remaining = this.remainingCooldown();
+      if (remaining > 0) {
+        throw this.openError(remaining);
+      }
+      this.transition("half-open");
+    }
+
+    if (this.state === "half-open") {
+      if (this.trialInFlight) {
+        throw this.openError(0);
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  /**
+   * Record an attempt that reached the server
+   */
+  recordSuccess(): void {
+    this.trialInFlight = false;
+    this.failures = 0;
+    if (this.state !== "closed") {
+      this.transition("closed");
+    }
+  }
+
+  /**
+   * Record a failed attempt (network error, timeout or 5xx)
+   */
+  recordFailure(): void {
+    this.trialInFlight = false;
+    this.failures++;
+    if (
+      this.state === "half-open" ||
+      (this.state === "closed" && this.failures >= this.failureThreshold)
+    ) {
+      this.openedAt = Date.now();
+      this.transition("open");
+    }
+  }
+
+  /**
+   * Record an attempt that says nothing about the endpoint (e.g. cancelled)
+   */
+  recordInconclusive(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Close the circuit and clear the failure count
+   */
+  reset(): void {
+    this.trialInFlight = false;
+    this.failures = 0;
+    if (this.state !== "closed") {
+      this.transition("closed");
+    }
+  }
+
+  /**
+   * Milliseconds until an open circuit allows a trial request
+   */
+  private remainingCooldown(): number {
+    return Math.max(0, this.openedAt + this.cooldownMs - Date.now());
+  }
+
+  private openError(retryAfterMs: number): CircuitOpenError {
+    return new CircuitOpenError(
+      `Circuit open for ${sanitizeUrlForLog(this.endpoint)} after ${this.failures} consecutive failures - failing fast`,
+      this.endpoint,
+      retryAfterMs,
+      { failures: this.failures, state: this.state }
+    );
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    this.state = to;
+
+    const context = {
+      endpoint: sanitizeUrlForLog(this.endpoint),
+      from,
+      to,
+      failures: this.failures,
+    };
+    if (to === "open") {
+      logger.warn("Circuit breaker opened", { ...context, cooldownMs: this.cooldownMs });
+    } else {
+      logger.info("Circuit breaker state changed", context);
+    }
+
+    this.onStateChange({ endpoint: this.endpoint, from, to, failures: this.failures });
+  }
+}
@@ -15,9 +15,33 @@
  * @packageDocumentation
  */
 
+import { EventEmitter } from "events";
 import { readFile } from "fs/promises";
 import { logger } from "../utils/logging.js";
-import { getProfileManager, type Profile } from "../profile/index.js";
+import { AuthenticationError } from "../utils/errors.js";
+import {
+  getProfileManager,
+  ProfileWatcher,
+  type Profile,
+  type ProfileChange,
+  type ProfileWatcherOptions,
+} from "../profile/index.js";
+import { isSecretReference, resolveSecret } from "../secrets/index.js";
+import { clearCredentialProcessCache, runCredentialProcess } from "./credential-process.js";
+import {
+  openP12Bundle,
+  inspectCertificate,
+  inspectP12Bundle,
+  type CertificateInfo,
+} from "./certificates.js";
+import {
+  AUTH_ENV_VARS,
+  CredentialProviderChain,
+  type CredentialProvider,
+  type CredentialProviderAttempt,
+  type CredentialResolution,
+  type CredentialSource,
+} from "./credential-providers.js";
 import {
   validateFilePath,
   validateFilePaths,
@@ -39,19 +63,9 @@ export enum AuthMode {
 
 /**
  * Environment variable names for authentication
- * These take priority over profile settings
+ * Defined alongside the environment provider; re-exported here for compatibility.
  */
-export const AUTH_ENV_VARS = {
-  API_URL: "F5XC_API_URL",
-  API_TOKEN: "F5XC_API_TOKEN",
-  P12_BUNDLE: "F5XC_P12_BUNDLE",
-  CERT: "F5XC_CERT",
-  KEY: "F5XC_KEY",
-  NAMESPACE: "F5XC_NAMESPACE",
-  // TLS configuration
-  TLS_INSECURE: "F5XC_TLS_INSECURE",
-  CA_BUNDLE: "F5XC_CA_BUNDLE",
-} as const;
+export { AUTH_ENV_VARS };
 
 /**
  * Credential configuration for API access
@@ -65,6 +79,8 @@ export interface Credentials {
   token: string | null;
   /** P12 certificate buffer (for cert auth) */
   p12Certificate: Buffer | null;
+  /** P12 bundle password (for password-protected bundles) */
+  p12Password: string | null;
   /** Certificate content (for mTLS) */
   cert: string | null;
   /** Private key content (for mTLS) */
@@ -75,6 +91,14 @@ export interface Credentials {
   tlsInsecure: boolean;
   /** Custom CA bundle for TLS verification */
   caBundle: Buffer | null;
+  /** Proxy URL (null: use HTTPS_PROXY / HTTP_PROXY) */
+  proxy: string | null;
+  /** Hosts that bypass the proxy (null: use NO_PROXY) */
+  noProxy: string | null;
+  /** Credential process that supplied the credentials (null if none) */
+  credentialProcess: string | null;
+  /** When the credential process output expires (null: no expiry reported) */
+  expiresAt: Date | null;
 }
 
 /**
@@ -186,32 +210,200 @@ export function normalizeTenantUrl(input: string): string {
   return apiUrl.replace(/\/api\/?$/i, "");
 }
 
+/**
+ * CredentialManager construction options
+ */
+export interface CredentialManagerOptions {
+  /**
+   * Credential providers in resolution order
+   * Default: environment variables, then the active profile.
+   */
+  providers?: CredentialProviderChain | CredentialProvider[];
+  /**
+   * Profile to load instead of the shared active profile (default: F5XC_PROFILE).
+   * Applies to the default provider chain; initialize() fails if it does not exist.
+   */
+  profile?: string;
+  /**
+   * How often to re-evaluate credential expiry while the process runs, in
+   * milliseconds (default: 1 hour, 0 disables). The timer does not keep the
+   * process alive.
+   */
+  expiryCheckInterval?: number;
+  /**
+   * Reload credentials when profile files or the active profile change on
+   * disk (default: false). Pass options to tune the debounce window.
+   */
+  watchProfiles?: boolean | ProfileWatcherOptions;
+}
+
+/**
+ * Payload of the loaded/reloaded events
+ */
+export interface CredentialsLoadedEvent {
+  /** Provider that supplied the credentials (null in documentation mode) */
+  provider: string | null;
+  /** Authentication mode */
+  mode: AuthMode;
+  /** Tenant name */
+  tenant: string | null;
+  /** Active profile name (null for non-profile sources) */
+  profile: string | null;
+}
+
+/**
+ * Payload of the expiringSoon/expired events
+ */
+export interface CredentialExpiryEvent {
+  /** Where the expiry date came from */
+  source: "certificate" | "metadata" | "credential-process";
+  /** Expiry date */
+  expiresAt: Date;
+  /** Whole days until expiry (0 or negative once expired) */
+  daysRemaining: number;
+  /** Active profile name (null for non-profile sources) */
+  profile: string | null;
+  /** Certificate subject (certificate source only) */
+  subject?: string;
+}
+
+/**
+ * Payload of the rotationDue event
+ */
+export interface CredentialRotationEvent {
+  /** Profile name */
+  profile: string;
+  /** When the credentials were last rotated (ISO 8601) */
+  lastRotated: string;
+  /** Configured rotation interval */
+  rotateAfterDays: number;
+}
+
+/**
+ * Payload of the fallbackToToken event
+ */
+export interface CredentialFallbackEvent {
+  /** Certificate material that could not be loaded */
+  certificate: "p12" | "cert-key";
+  /** Why it could not be loaded */
+  error: string;
+}
+
+/**
+ * Payload of the refreshFailed event
+ */
+export interface CredentialRefreshFailedEvent {
+  /** Active profile name (null for non-profile sources) */
+  profile: string | null;
+  /** Why the refresh failed */
+  error: string;
+  /** Milliseconds until the refresh is retried */
+  retryIn: number;
+}
+
+/**
+ * Payload of the documentationMode event
+ */
+export interface DocumentationModeEvent {
+  /** Why each provider was skipped */
+  attempts: CredentialProviderAttempt[];
+}
+
+/**
+ * Events emitted by CredentialManager
+ */
+export interface CredentialManagerEvents {
+  /** Credentials loaded by initialize() */
+  loaded: [CredentialsLoadedEvent];
+  /** Credentials loaded again by reload() */
+  reloaded: [CredentialsLoadedEvent];
+  /** Credentials expire within 7 days */
+  expiringSoon: [CredentialExpiryEvent];
+  /** Credentials have expired */
+  expired: [CredentialExpiryEvent];
+  /** Profile credentials are past their rotation date */
+  rotationDue: [CredentialRotationEvent];
+  /** Certificate material failed to load and the API token is used instead */
+  fallbackToToken: [CredentialFallbackEvent];
+  /** Refreshing expiring credential process output failed; current credentials are kept */
+  refreshFailed: [CredentialRefreshFailedEvent];
+  /** No provider supplied credentials */
+  documentationMode: [DocumentationModeEvent];
+}
+
+const DEFAULT_EXPIRY_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+const EXPIRY_WARNING_DAYS = 7;
+/** Re-run the credential process this long before its output expires */
+const CREDENTIAL_REFRESH_MARGIN = 60 * 1000;
+/** Shortest wait before a refresh, and the first retry delay after a failed one */
+const MIN_CREDENTIAL_REFRESH_DELAY = 30 * 1000;
+/** Longest wait between retries of a failing refresh */
+const MAX_CREDENTIAL_REFRESH_BACKOFF = 15 * 60 * 1000;
+/** Longest delay setTimeout supports */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
 /**
  * Credential Manager
  *
  * Manages authentication credentials for F5 Distributed Cloud API.
- * Supports credential loading with priority:
+ * Supports credential loading with priority (default provider chain):
  * 1. Environment variables (highest priority - overrides all)
- * 2. Active profile from ~/.config/f5xc/ (XDG Base Directory compliant)
+ * 2. Profile selected by F5XC_PROFILE / the profile option, or else the
+ *    active profile from ~/.config/f5xc/ (XDG Base Directory compliant)
  * 3. No credentials (documentation mode - lowest priority)
+ *
+ * Lifecycle events (see {@link CredentialManagerEvents}) let long-running
+ * servers surface expiry and fallback conditions to users. Expiry is
+ * re-evaluated periodically after initialize(); call dispose() to stop.
+ *
+ * @example
+ * ```typescript
+ * const cm = new CredentialManager();
+ * cm.on("expiringSoon", ({ daysRemaining }) => notify(`Credentials expire in ${daysRemaining} days`));
+ * await cm.initialize();
+ * ```
  */
-export class CredentialManager {
+export class CredentialManager extends EventEmitter<CredentialManagerEvents> {
   private credentials: Credentials;
   private activeProfileName: string | null = null;
   private initialized = false;
+  private providers: CredentialProviderChain;
+  private resolution: CredentialResolution = { provider: null, attempts: [] };
+  private certificateInfo: CertificateInfo | null = null;
+  private readonly expiryCheckInterval: number;
+  private expiryTimer: NodeJS.Timeout | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  /** Expiry of the output the last refresh replaced */
+  private refreshedExpiry: Date | null = null;
+  private refreshFailures = 0;
+  private readonly watchOptions: ProfileWatcherOptions | null;
+  private profileWatcher: ProfileWatcher | null = null;
+  private generation = 0;
+
+  constructor(options: CredentialManagerOptions = {}) {
+    super();
+    this.expiryCheckInterval = options.expiryCheckInterval ?? DEFAULT_EXPIRY_CHECK_INTERVAL;
+    this.watchOptions = options.watchProfiles === true ? {} : options.watchProfiles || null;
+    this.providers = Array.isArray(options.providers)
+      ? new CredentialProviderChain(options.providers)
+      : (options.providers ?? CredentialProviderChain.default({ profile: options.profile }));
 
-  constructor() {
     // Initialize with empty credentials - will be loaded async
     this.credentials = {
       mode: AuthMode.NONE,
       apiUrl: null,
       token: null,
       p12Certificate: null,
+      p12Password: null,
       cert: null,
       key: null,
       namespace: null,
       tlsInsecure: false,
       caBundle: null,
+      proxy: null,
+      noProxy: null,
+      credentialProcess: null,
+      expiresAt: null,
     };
   }
 
@@ -221,80 +413,252 @@ export class CredentialManager {
    */
   async initialize(): Promise<void> {
     if (this.initialized) return;
-    this.credentials = await this.loadCredentials();
-    this.initialized = true;
+    await this.load("loaded");
 
-    // Check credential expiration after loading
-    await this.checkCredentialExpiration();
+    if (this.watchOptions && !this.profileWatcher) {
+      await this.watchProfiles(this.watchOptions);
+    }
   }
 
   /**
-   * Load credentials from environment variables
+   * Reload credentials whenever profile files or the active profile change
+   * Watch failures are logged; credentials keep working without the watcher.
+   *
+   * @param options - Watcher options
    */
-  private loadFromEnvironment(): Partial<Profile> & {
-    hasAuth: boolean;
-    tlsInsecure: boolean;
-    caBundle: string | undefined;
-  } {
-    const apiUrl = process.env[AUTH_ENV_VARS.API_URL];
-    const apiToken = process.env[AUTH_ENV_VARS.API_TOKEN];
-    const p12Bundle = process.env[AUTH_ENV_VARS.P12_BUNDLE];
-    const cert = process.env[AUTH_ENV_VARS.CERT];
-    const key = process.env[AUTH_ENV_VARS.KEY];
-    const defaultNamespace = process.env[AUTH_ENV_VARS.NAMESPACE];
-    const tlsInsecure = process.env[AUTH_ENV_VARS.TLS_INSECURE]?.toLowerCase() === "true";
-    const caBundle = process.env[AUTH_ENV_VARS.CA_BUNDLE];
+  async watchProfiles(options: ProfileWatcherOptions = {}): Promise<void> {
+    if (this.profileWatcher) {
+      return;
+    }
 
-    const hasAuth = !!(apiToken || p12Bundle || (cert && key));
+    const watcher = new ProfileWatcher(changes => {
+      void this.handleProfileChanges(changes);
+    }, options);
+    try {
+      await watcher.start();
+      this.profileWatcher = watcher;
+    } catch (error) {
+      watcher.close();
+      logger.warn("Failed to watch profile files", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
 
-    return {
-      name: "__env__",
-      apiUrl: apiUrl || "",
-      apiToken,
-      p12Bundle,
-      cert,
-      key,
-      defaultNamespace,
-      hasAuth,
-      tlsInsecure,
-      caBundle,
-    };
+  /**
+   * Stop watching profile files
+   */
+  unwatchProfiles(): void {
+    this.profileWatcher?.close();
+    this.profileWatcher = null;
   }
 
   /**
-   * Load credentials from active profile
+   * Invalidate cached profiles and reload after an on-disk change
    */
-  private async loadFromProfile(): Promise<Profile | null> {
+  private async handleProfileChanges(changes: ProfileChange[]): Promise<void> {
+    const profileManager = getProfileManager();
+    for (const change of changes) {
+      if (change.type === "profile") {
+        profileManager.invalidate(change.name);
+      } else {
+        profileManager.invalidate();
+      }
+    }
+
+    logger.info("Profile files changed - reloading credentials", {
+      changes: changes.map(change => (change.type === "profile" ? change.name : "active_profile")),
+    });
+
     try {
-      const profileManager = getProfileManager();
-      const profile = await profileManager.getActiveProfile();
+      await this.reload();
+    } catch (error) {
+      logger.error("Failed to reload credentials after profile change", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Load credentials, announce them, and (re)start expiry checks
+   */
+  private async load(event: "loaded" | "reloaded"): Promise<void> {
+    // Current credentials stay in effect until the new ones have loaded
+    const { credentials, profileName, resolution } = await this.loadCredentials();
+    this.stopExpiryChecks();
+    this.credentials = credentials;
+    this.activeProfileName = profileName;
+    this.resolution = resolution;
+    this.certificateInfo = this.inspectClientCertificate();
+    this.initialized = true;
+    this.generation++;
+
+    this.emit(event, {
+      provider: this.resolution.provider,
+      mode: this.credentials.mode,
+      tenant: this.getTenant(),
+      profile: this.activeProfileName,
+    });
+    if (this.credentials.mode === AuthMode.NONE) {
+      this.emit("documentationMode", { attempts: this.getCredentialResolution().attempts });
+      return;
+    }
+
+    // Check credential expiration after loading, then periodically
+    await this.checkCredentialExpiration();
+    this.startExpiryChecks();
+    this.scheduleCredentialRefresh();
+  }
+
+  /**
+   * Refresh shortly before credential process output expires
+   * Output that expires within the margin (or already has) is refreshed after
+   * a minimum delay, and a refresh that does not move the expiry forward is
+   * not repeated, so a misbehaving process is not spawned in a loop.
+   *
+   * @param retryDelay - Delay before retrying a failed refresh
+   */
+  private scheduleCredentialRefresh(retryDelay?: number): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    // Only the load that completes a refresh compares against the replaced output
+    const replacedExpiry = this.refreshedExpiry;
+    this.refreshedExpiry = null;
+
+    const { expiresAt, credentialProcess } = this.credentials;
+    if (!expiresAt || !credentialProcess) {
+      return;
+    }
+    if (
+      retryDelay === undefined &&
+      replacedExpiry &&
+      expiresAt.getTime() <= replacedExpiry.getTime()
+    ) {
+      logger.warn("Credential process did not extend its expiry - automatic refresh stopped", {
+        profile: this.activeProfileName,
+        expiresAt: expiresAt.toISOString(),
+      });
+      return;
+    }
 
-      if (profile) {
-        this.activeProfileName = profile.name;
-        return profile;
+    const delay =
+      retryDelay ??
+      Math.max(expiresAt.getTime() - CREDENTIAL_REFRESH_MARGIN - Date.now(), MIN_CREDENTIAL_REFRESH_DELAY);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      // Delays beyond the setTimeout limit are covered in several steps
+      if (delay > MAX_TIMER_DELAY) {
+        this.scheduleCredentialRefresh();
+        return;
       }
+      void this.refreshCredentialProcess(credentialProcess, expiresAt);
+    }, Math.min(delay, MAX_TIMER_DELAY));
+    this.refreshTimer.unref();
+  }
 
-      return null;
+  /**
+   * Re-run the credential process and reload with its new output
+   * The process runs before the reload, so a failure leaves the current
+   * credentials in place (rather than falling through to other providers or
+   * documentation mode); it is reported and retried with backoff.
+   */
+  private async refreshCredentialProcess(command: string, expiresAt: Date): Promise<void> {
+    logger.info("Credential process output expiring - refreshing credentials", {
+      profile: this.activeProfileName,
+      expiresAt: expiresAt.toISOString(),
+    });
+
+    try {
+      clearCredentialProcessCache(command);
+      await runCredentialProcess(command);
+      this.refreshedExpiry = expiresAt;
+      await this.reload();
+      this.refreshedExpiry = null;
+      this.refreshFailures = 0;
     } catch (error) {
-      logger.debug("Failed to load credentials from profile", {
-        error: error instanceof Error ? error.message : String(error),
+      const message = error instanceof Error ? error.message : String(error);
+      this.refreshFailures++;
+      const retryIn = Math.min(
+        MIN_CREDENTIAL_REFRESH_DELAY * 2 ** (this.refreshFailures - 1),
+        MAX_CREDENTIAL_REFRESH_BACKOFF
+      );
+      logger.error("Failed to refresh expiring credentials", { error: message, retryIn });
+      this.emit("refreshFailed", { profile: this.activeProfileName, error: message, retryIn });
+      this.scheduleCredentialRefresh(retryIn);
+    }
+  }
+
+  /**
+   * Re-evaluate expiry on a timer that does not keep the process alive
+   */
+  private startExpiryChecks(): void {
+    // Overlapping reloads each get here; keep a single timer
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+    if (this.expiryCheckInterval <= 0) {
+      return;
+    }
+
+    this.expiryTimer = setInterval(() => {
+      this.checkCredentialExpiration().catch(error => {
+        logger.debug("Scheduled credential expiration check failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
       });
-      return null;
+    }, this.expiryCheckInterval);
+    this.expiryTimer.unref();
+  }
+
+  /**
+   * Stop the expiry check and credential refresh timers
+   */
+  private stopExpiryChecks(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
     }
   }
 
+  /**
+   * Stop background expiry checks and profile watching
+   * Event listeners are left attached; the manager remains usable.
+   */
+  dispose(): void {
+    this.stopExpiryChecks();
+    this.unwatchProfiles();
+  }
+
   /**
    * Build credentials object from profile data
    */
-  private async buildCredentials(
-    profile: Profile & { tlsInsecure?: boolean; caBundle?: string }
-  ): Promise<Credentials> {
+  private async buildCredentials(source: CredentialSource): Promise<Credentials> {
+    const { profile, expiresAt } = await this.applyCredentialProcess(source);
     const apiUrl = profile.apiUrl;
 
+    // Resolve API token reference (secret://store/name) through its store
+    let apiToken: string | null = null;
+    try {
+      apiToken = (await resolveSecret(profile.apiToken)) ?? null;
+    } catch (error) {
+      logger.error("Failed to resolve API token secret reference", {
+        reference: profile.apiToken,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
     // Determine authentication mode
     let mode = AuthMode.NONE;
     let normalizedUrl: string | null = null;
     let p12Certificate: Buffer | null = null;
+    let p12Password: string | null = null;
     let cert: string | null = null;
     let key: string | null = null;
 
@@ -336,82 +700,97 @@ export class CredentialManager {
         // P12 certificate authentication
         mode = AuthMode.CERTIFICATE;
         try {
-          const validatedPath = validateFilePath(profile.p12Bundle);
-          p12Certificate = await readFile(validatedPath);
-          logger.info("Loaded P12 certificate", {
-            file: sanitizePathForLog(validatedPath, true),
-          });
+          if (isSecretReference(profile.p12Bundle)) {
+            // Secret stores hold the bundle base64-encoded
+            p12Certificate = Buffer.from(await resolveSecret(profile.p12Bundle), "base64");
+            logger.info("Loaded P12 certificate from secret store", {
+              reference: profile.p12Bundle,
+            });
+          } else {
+            const validatedPath = validateFilePath(profile.p12Bundle);
+            p12Certificate = await readFile(validatedPath);
+            logger.info("Loaded P12 certificate", {
+              file: sanitizePathForLog(validatedPath, true),
+            });
+          }
+
+          // Validate bundle and password now rather than on the first TLS handshake
+          p12Password = (await resolveSecret(profile.p12Password)) ?? null;
+          openP12Bundle(p12Certificate, p12Password);
         } catch (error) {
           if (error instanceof PathValidationError) {
             logger.error("Invalid P12 certificate path", {
               error: error.message,
             });
             // Fall back to token auth if path validation fails
-            if (profile.apiToken) {
-              mode = AuthMode.TOKEN;
-              logger.info("Falling back to token authentication");
-            } else {
-              mode = AuthMode.NONE;
-            }
+            mode = this.fallbackToToken(apiToken, "p12", error.message);
           } else {
+            const message = error instanceof Error ? error.message : String(error);
             logger.error("Failed to load P12 certificate", {
               file: sanitizePathForLog(profile.p12Bundle, true),
-              error: error instanceof Error ? error.message : String(error),
+              error: message,
             });
-            // Fall back to token auth if certificate load fails
-            if (profile.apiToken) {
-              mode = AuthMode.TOKEN;
-              logger.info("Falling back to token authentication");
-            } else {
-              mode = AuthMode.NONE;
+            // A bundle that was read but cannot be opened is an error unless a token can stand in
+            if (p12Certificate && !apiToken) {
+              throw error instanceof AuthenticationError
+                ? error
+                : new AuthenticationError(`Cannot open P12 certificate: ${message}`);
             }
+            // Fall back to token auth if certificate load fails
+            p12Certificate = null;
+            p12Password = null;
+            mode = this.fallbackToToken(apiToken, "p12", message);
           }
         }
       } else if (profile.cert && profile.key) {
         // Certificate + key authentication
         mode = AuthMode.CERTIFICATE;
         try {
-          // Validate both paths before reading
-          const [validatedCert, validatedKey] = validateFilePaths([
-            profile.cert,
-            profile.key,
-          ]);
-
-          // Read both files in parallel for better performance
-          [cert, key] = await Promise.all([
-            readFile(validatedCert, "utf-8"),
-            readFile(validatedKey, "utf-8"),
-          ]);
-
-          logger.info("Loaded certificate and key", {
-            cert: sanitizePathForLog(validatedCert),
-            key: sanitizePathForLog(validatedKey),
-          });
+          if (isSecretReference(profile.cert) || isSecretReference(profile.key)) {
+            // PEM content held in a secret store (either or both)
+            [cert, key] = await Promise.all([
+              this.readPemMaterial(profile.cert),
+              this.readPemMaterial(profile.key),
+            ]);
+
+            logger.info("Loaded certificate and key", {
+              cert: isSecretReference(profile.cert) ? profile.cert : sanitizePathForLog(profile.cert),
+              key: isSecretReference(profile.key) ? profile.key : sanitizePathForLog(profile.key),
+            });
+          } else {
+            // Validate both paths before reading
+            const [validatedCert, validatedKey] = validateFilePaths([
+              profile.cert,
+              profile.key,
+            ]);
+
+            // Read both files in parallel for better performance
+            [cert, key] = await Promise.all([
+              readFile(validatedCert, "utf-8"),
+              readFile(validatedKey, "utf-8"),
+            ]);
+
+            logger.info("Loaded certificate and key", {
+              cert: sanitizePathForLog(validatedCert),
+              key: sanitizePathForLog(validatedKey),
+            });
+          }
         } catch (error) {
           if (error instanceof PathValidationError) {
             logger.error("Invalid certificate path", { error: error.message });
             // Fall back to token auth if path validation fails
-            if (profile.apiToken) {
-              mode = AuthMode.TOKEN;
-              logger.info("Falling back to token authentication");
-            } else {
-              mode = AuthMode.NONE;
-            }
+            mode = this.fallbackToToken(apiToken, "cert-key", error.message);
           } else {
+            const message = error instanceof Error ? error.message : String(error);
             logger.error("Failed to load certificate/key", {
               cert: sanitizePathForLog(profile.cert),
               key: sanitizePathForLog(profile.key),
-              error: error instanceof Error ? error.message : String(error),
+              error: message,
             });
-            if (profile.apiToken) {
-              mode = AuthMode.TOKEN;
-              logger.info("Falling back to token authentication");
-            } else {
-              mode = AuthMode.NONE;
-            }
+            mode = this.fallbackToToken(apiToken, "cert-key", message);
           }
         }
-      } else if (profile.apiToken) {
+      } else if (apiToken) {
         mode = AuthMode.TOKEN;
       }
     }
@@ -419,22 +798,182 @@ export class CredentialManager {
     return {
       mode,
       apiUrl: normalizedUrl,
-      token: profile.apiToken ?? null,
+      token: apiToken,
       p12Certificate,
+      p12Password,
       cert,
       key,
       namespace: profile.defaultNamespace ?? null,
       tlsInsecure,
       caBundle,
+      proxy: profile.proxy || null,
+      noProxy: profile.noProxy ?? null,
+      credentialProcess: expiresAt ? (profile.credentialProcess ?? null) : null,
+      expiresAt,
     };
   }
 
+  /**
+   * Pick the mode after certificate material failed to load
+   * Uses the API token when one is configured, otherwise no authentication.
+   */
+  private fallbackToToken(
+    apiToken: string | null,
+    certificate: CredentialFallbackEvent["certificate"],
+    error: string
+  ): AuthMode {
+    if (!apiToken) {
+      return AuthMode.NONE;
+    }
+    logger.info("Falling back to token authentication");
+    this.emit("fallbackToToken", { certificate, error });
+    return AuthMode.TOKEN;
+  }
+
+  /**
+   * Overlay credentials from the profile's external credential process (if any)
+   * Process output replaces the profile's static token/certificate fields.
+   * On failure the static fields are used as-is.
+   *
+   * @returns The profile, and when the process output expires
+   */
+  private async applyCredentialProcess<T extends Profile>(
+    profile: T
+  ): Promise<{ profile: T; expiresAt: Date | null }> {
+    if (!profile.credentialProcess) {
+      return { profile, expiresAt: null };
+    }
+
+    try {
+      const output = await runCredentialProcess(profile.credentialProcess);
+      logger.info("Loaded credentials from credential process", {
+        profile: profile.name,
+        expiresAt: output.expiresAt,
+      });
+
+      return {
+        profile: {
+          ...profile,
+          apiToken: output.apiToken,
+          p12Bundle: output.p12Bundle,
+          p12Password: output.p12Password,
+          cert: output.cert,
+          key: output.key,
+        },
+        expiresAt: output.expiresAt ? new Date(output.expiresAt) : null,
+      };
+    } catch (error) {
+      logger.error("Credential process failed", {
+        profile: profile.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { profile, expiresAt: null };
+    }
+  }
+
+  /**
+   * Read PEM content from a secret reference or a validated file path
+   */
+  private async readPemMaterial(value: string): Promise<string> {
+    if (isSecretReference(value)) {
+      return resolveSecret(value);
+    }
+    return readFile(validateFilePath(value), "utf-8");
+  }
+
+  /**
+   * Parse the loaded client certificate (P12 bundle or cert/key pair)
+   */
+  private inspectClientCertificate(): CertificateInfo | null {
+    const { mode, p12Certificate, p12Password, cert, key } = this.credentials;
+    if (mode !== AuthMode.CERTIFICATE) {
+      return null;
+    }
+
+    try {
+      let info: CertificateInfo | null = null;
+      if (p12Certificate) {
+        info = inspectP12Bundle(p12Certificate, p12Password);
+      } else if (cert) {
+        info = inspectCertificate(cert, key);
+        if (!info.keyMatches) {
+          logger.warn("Private key does not match certificate", { subject: info.subject });
+        }
+      }
+      return info;
+    } catch (error) {
+      logger.warn("Failed to inspect client certificate", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Log expiry warnings for a credential expiration date
+   */
+  private logExpiration(
+    expirationDate: Date,
+    context: Pick<CredentialExpiryEvent, "source" | "profile" | "subject">
+  ): void {
+    const now = new Date();
+    const expiresAt = expirationDate.toISOString();
+
+    // Calculate days until expiration
+    const daysUntilExpiration = Math.ceil(
+      (expirationDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
+    );
+    const event: CredentialExpiryEvent = {
+      ...context,
+      expiresAt: expirationDate,
+      daysRemaining: daysUntilExpiration,
+    };
+
+    if (expirationDate < now) {
+      logger.warn("Credentials have expired", { ...context, expiresAt });
+      this.emit("expired", event);
+      return;
+    }
+
+    if (daysUntilExpiration <= EXPIRY_WARNING_DAYS) {
+      logger.info("Credentials expiring soon", {
+        ...context,
+        daysRemaining: daysUntilExpiration,
+        expiresAt,
+      });
+      this.emit("expiringSoon", event);
+    }
+  }
+
   /**
    * Check credential expiration and log warnings
+   * Certificate validity dates take precedence over profile metadata.
    */
   private async checkCredentialExpiration(): Promise<void> {
-    // Skip if credentials are from environment variables
-    if (!this.activeProfileName || this.activeProfileName === "__env__") {
+    if (this.credentials.expiresAt) {
+      this.logExpiration(this.credentials.expiresAt, {
+        profile: this.activeProfileName,
+        source: "credential-process",
+      });
+    }
+
+    const certificate = this.certificateInfo;
+    if (certificate) {
+      if (certificate.notBefore > new Date()) {
+        logger.warn("Client certificate is not yet valid", {
+          subject: certificate.subject,
+          notBefore: certificate.notBefore.toISOString(),
+        });
+      }
+      this.logExpiration(certificate.notAfter, {
+        profile: this.activeProfileName,
+        source: "certificate",
+        subject: certificate.subject,
+      });
+    }
+
+    // Rotation metadata only exists for profiles
+    if (!this.activeProfileName) {
       return;
     }
 
@@ -450,27 +989,8 @@ export class CredentialManager {
       const now = new Date();
 
       // Check explicit expiration
-      if (expiresAt) {
-        const expirationDate = new Date(expiresAt);
-        if (expirationDate < now) {
-          logger.warn("Credentials have expired", {
-            profile: profile.name,
-            expiresAt,
-          });
-        } else {
-          // Calculate days until expiration
-          const daysUntilExpiration = Math.ceil(
-            (expirationDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
-          );
-
-          if (daysUntilExpiration <= 7) {
-            logger.info("Credentials expiring soon", {
-              profile: profile.name,
-              daysRemaining: daysUntilExpiration,
-              expiresAt,
-            });
-          }
-        }
+      if (expiresAt && !certificate) {
+        this.logExpiration(new Date(expiresAt), { profile: profile.name, source: "metadata" });
       }
 
       // Check rotation schedule
@@ -488,7 +1008,8 @@ export class CredentialManager {
             lastRotated,
             rotateAfterDays,
           });
-        } else if (daysUntilRotation <= 7) {
+          this.emit("rotationDue", { profile: profile.name, lastRotated, rotateAfterDays });
+        } else if (daysUntilRotation <= EXPIRY_WARNING_DAYS) {
           logger.info("Credentials rotation approaching", {
             profile: profile.name,
             daysUntilRotation,
@@ -504,55 +1025,97 @@ export class CredentialManager {
   }
 
   /**
-   * Load credentials with priority order:
-   * 1. Environment variables (highest)
-   * 2. Active profile from ~/.config/f5xc/
-   * 3. No credentials - documentation mode (lowest)
+   * Load credentials by asking each provider in the chain, in order.
+   * The first provider yielding usable credentials wins; when none does,
+   * the manager runs in documentation mode.
    */
-  private async loadCredentials(): Promise<Credentials> {
-    // Step 1: Check environment variables first (highest priority)
-    const envCreds = this.loadFromEnvironment();
-    if (envCreds.apiUrl && envCreds.hasAuth) {
-      const credentials = await this.buildCredentials(envCreds as Profile);
+  private async loadCredentials(): Promise<{
+    credentials: Credentials;
+    profileName: string | null;
+    resolution: CredentialResolution;
+  }> {
+    const attempts: CredentialProviderAttempt[] = [];
+
+    for (const provider of this.providers.getProviders()) {
+      const result = await provider.load();
+
+      if ("skip" in result) {
+        attempts.push({ provider: provider.name, status: "skipped", reason: result.skip });
+        logger.debug("Credential provider skipped", {
+          provider: provider.name,
+          reason: result.skip,
+        });
+        continue;
+      }
+
+      const credentials = await this.buildCredentials(result.source);
+      if (credentials.mode === AuthMode.NONE) {
+        attempts.push({
+          provider: provider.name,
+          status: "skipped",
+          reason: "no usable credentials (missing API URL or authentication could not be loaded)",
+        });
+        continue;
+      }
+
+      attempts.push({
+        provider: provider.name,
+        status: "resolved",
+        reason: `${credentials.mode} authentication`,
+      });
+      const profileName = result.profileName ?? null;
+
       const tenant = credentials.apiUrl ? extractTenantFromUrl(credentials.apiUrl) : null;
-      logger.info("Credentials loaded from environment variables", {
+      logger.info("Credentials loaded", {
+        provider: provider.name,
         mode: credentials.mode,
         tenant,
+        profile: profileName,
       });
-      return credentials;
-    }
-
-    // Step 2: Try active profile from ~/.config/f5xc/
-    const profile = await this.loadFromProfile();
-    if (profile) {
-      const credentials = await this.buildCredentials(profile);
-
-      if (credentials.mode !== AuthMode.NONE) {
-        const tenant = credentials.apiUrl ? extractTenantFromUrl(credentials.apiUrl) : null;
-        logger.info("Credentials loaded from profile", {
-          mode: credentials.mode,
-          tenant,
-          profile: this.activeProfileName,
-        });
-        return credentials;
-      }
+      return { credentials, profileName, resolution: { provider: provider.name, attempts } };
     }
 
-    // Step 3: No credentials - documentation mode (lowest priority)
+    // No credentials - documentation mode (lowest priority)
     logger.info("No credentials configured - running in documentation mode");
-    return {
+    const credentials: Credentials = {
       mode: AuthMode.NONE,
       apiUrl: null,
       token: null,
       p12Certificate: null,
+      p12Password: null,
       cert: null,
       key: null,
       namespace: null,
       tlsInsecure: false,
       caBundle: null,
+      proxy: null,
+      noProxy: null,
+      credentialProcess: null,
+      expiresAt: null,
+    };
+    return { credentials, profileName: null, resolution: { provider: null, attempts } };
+  }
+
+  /**
+   * Get how the current credentials were resolved
+   * Reports the winning provider and why each earlier provider was skipped.
+   */
+  getCredentialResolution(): Readonly<CredentialResolution> {
+    return {
+      provider: this.resolution.provider,
+      attempts: this.resolution.attempts.map(attempt => ({ ...attempt })),
     };
   }
 
+  /**
+   * Get the credential generation
+   * Starts at 0 and increases every time credentials are loaded or reloaded,
+   * so consumers holding derived state (e.g. HTTP agents) can detect changes.
+   */
+  getGeneration(): number {
+    return this.generation;
+  }
+
   /**
    * Get the active profile name (if any)
    * Returns null if credentials are from environment variables or no profile is active
@@ -603,6 +1166,21 @@ export class CredentialManager {
     return this.credentials.p12Certificate;
   }
 
+  /**
+   * Get P12 bundle password (null if the bundle has no password)
+   */
+  getP12Password(): string | null {
+    return this.credentials.p12Password;
+  }
+
+  /**
+   * Get a summary of the client certificate (validity dates, subject, issuer)
+   * Returns null for token authentication or when the certificate cannot be parsed.
+   */
+  getCertificateInfo(): Readonly<CertificateInfo> | null {
+    return this.certificateInfo;
+  }
+
   /**
    * Get certificate content (for mTLS)
    */
@@ -639,6 +1217,20 @@ export class CredentialManager {
     return this.credentials.caBundle;
   }
 
+  /**
+   * Get the configured proxy URL (null: HTTPS_PROXY / HTTP_PROXY apply)
+   */
+  getProxy(): string | null {
+    return this.credentials.proxy;
+  }
+
+  /**
+   * Get hosts that bypass the proxy (null: NO_PROXY applies)
+   */
+  getNoProxy(): string | null {
+    return this.credentials.noProxy;
+  }
+
   /**
    * Get full credentials object
    */
@@ -651,8 +1243,6 @@ export class CredentialManager {
    * Useful for testing or when credentials change
    */
   async reload(): Promise<void> {
-    this.initialized = false;
-    this.activeProfileName = null;
-    await this.initialize();
+    await this.load("reloaded");
   }
 }
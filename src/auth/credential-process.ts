@@ -0,0 +1,179 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * External credential process support
+ *
+ * Mirrors the AWS CLI `credential_process` setting: a profile (or the
+ * F5XC_CREDENTIAL_PROCESS environment variable) names a command that prints
+ * credentials as JSON on stdout. Output is cached until its reported expiry.
+ *
+ * Expected output:
+ * ```json
+ * {
+ *   "version": 1,
+ *   "apiToken": "...",
+ *   "expiresAt": "2026-01-01T00:00:00Z"
+ * }
+ * ```
+ * Instead of apiToken, the command may return `cert`/`key` or `p12Bundle`
+ * file paths.
+ *
+ * @module credential-process
+ * @since 1.5.0
+ * @packageDocumentation
+ */
+
+import { exec } from "child_process";
+import { AuthenticationError } from "../utils/errors.js";
+
+/**
+ * Credentials returned by an external credential process
+ */
+export interface CredentialProcessOutput {
+  /** Output format version (must be 1) */
+  version: 1;
+  /** API token */
+  apiToken?: string;
+  /** Path to P12 bundle */
+  p12Bundle?: string;
+  /** Password for the P12 bundle */
+  p12Password?: string;
+  /** Path to certificate PEM file */
+  cert?: string;
+  /** Path to private key PEM file */
+  key?: string;
+  /** When the returned credentials expire (ISO 8601) - omit for no expiry */
+  expiresAt?: string;
+}
+
+/**
+ * Credential process execution options
+ */
+export interface CredentialProcessOptions {
+  /** Command timeout in milliseconds (default: 30000) */
+  timeout?: number;
+}
+
+/**
+ * Cached process output
+ */
+interface CachedOutput {
+  output: CredentialProcessOutput;
+  /** Expiry timestamp in ms, or null for no expiry */
+  expiresAt: number | null;
+}
+
+const DEFAULT_TIMEOUT = 30000;
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+
+/**
+ * Output cache keyed by command
+ */
+const cache = new Map<string, CachedOutput>();
+
+/**
+ * Execute a shell command and capture stdout
+ */
+function execCommand(command: string, timeout: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    exec(
+      command,
+      { timeout, maxBuffer: MAX_OUTPUT_BYTES, windowsHide: true },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(
+            new AuthenticationError(`Credential process failed: ${error.message.split("\n")[0]}`, {
+              exitCode: error.code,
+              signal: error.signal,
+              stderr: stderr.trim().slice(0, 500),
+            })
+          );
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+/**
+ * Parse and validate credential process output
+ */
+function parseOutput(stdout: string): CredentialProcessOutput {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stdout);
+  } catch {
+    throw new AuthenticationError("Credential process did not print valid JSON");
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    throw new AuthenticationError("Credential process output must be a JSON object");
+  }
+
+  const output = parsed as Partial<CredentialProcessOutput>;
+
+  if (output.version !== 1) {
+    throw new AuthenticationError(
+      `Unsupported credential process output version: ${String(output.version)} (expected 1)`
+    );
+  }
+
+  if (!output.apiToken && !output.p12Bundle && !(output.cert && output.key)) {
+    throw new AuthenticationError(
+      "Credential process output must include apiToken, p12Bundle, or cert and key"
+    );
+  }
+
+  if (output.expiresAt !== undefined && isNaN(Date.parse(output.expiresAt))) {
+    throw new AuthenticationError(
+      `Credential process returned an invalid expiresAt: ${output.expiresAt}`
+    );
+  }
+
+  return output as CredentialProcessOutput;
+}
+
+/**
+ * Run a credential process, returning cached output while it is still valid
+ *
+ * @param command - Shell command to execute
+ * @param options - Execution options
+ * @returns Parsed credentials
+ * @throws {AuthenticationError} If the command fails or prints invalid output
+ */
+export async function runCredentialProcess(
+  command: string,
+  options: CredentialProcessOptions = {}
+): Promise<CredentialProcessOutput> {
+  const cached = cache.get(command);
+  if (cached && (cached.expiresAt === null || cached.expiresAt > Date.now())) {
+    return cached.output;
+  }
+
+  const stdout = await execCommand(command, options.timeout ?? DEFAULT_TIMEOUT);
+  const output = parseOutput(stdout);
+
+  const expiresAt = output.expiresAt ? Date.parse(output.expiresAt) : null;
+  if (expiresAt !== null && expiresAt <= Date.now()) {
+    throw new AuthenticationError("Credential process returned already-expired credentials", {
+      expiresAt: output.expiresAt,
+    });
+  }
+
+  cache.set(command, { output, expiresAt });
+  return output;
+}
+
+/**
+ * Clear cached credential process output
+ *
+ * @param command - Clear only this command (default: all)
+ */
+export function clearCredentialProcessCache(command?: string): void {
+  if (command) {
+    cache.delete(command);
+  } else {
+    cache.clear();
+  }
+}
@@ -0,0 +1,380 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Composable credential providers
+ *
+ * CredentialManager resolves credentials by asking each provider in a chain,
+ * in order. The first provider that yields usable credentials wins; earlier
+ * providers record why they were skipped. When no provider resolves, the
+ * manager falls back to documentation mode.
+ *
+ * Default chain: environment variables, then the active profile (or the
+ * profile named by F5XC_PROFILE, which avoids the shared active_profile file).
+ *
+ * @example Env only (CI)
+ * ```typescript
+ * const cm = new CredentialManager({
+ *   providers: new CredentialProviderChain([environmentProvider()]),
+ * });
+ * ```
+ *
+ * @example Profile first (desktop tools)
+ * ```typescript
+ * const cm = new CredentialManager({
+ *   providers: CredentialProviderChain.default()
+ *     .remove("environment")
+ *     .add(environmentProvider()),
+ * });
+ * ```
+ *
+ * @module credential-providers
+ * @since 1.5.0
+ * @packageDocumentation
+ */
+
+import { readFile } from "fs/promises";
+import { logger } from "../utils/logging.js";
+import { ConfigurationError } from "../utils/errors.js";
+import { getProfileManager, type Profile } from "../profile/index.js";
+import { validateFilePath, sanitizePathForLog } from "../utils/path-security.js";
+
+/**
+ * Environment variable names for authentication
+ * These take priority over profile settings
+ */
+export const AUTH_ENV_VARS = {
+  API_URL: "F5XC_API_URL",
+  API_TOKEN: "F5XC_API_TOKEN",
+  P12_BUNDLE: "F5XC_P12_BUNDLE",
+  P12_PASSWORD: "F5XC_P12_PASSWORD",
+  CERT: "F5XC_CERT",
+  KEY: "F5XC_KEY",
+  NAMESPACE: "F5XC_NAMESPACE",
+  // Per-process profile selection (overrides the shared active_profile file)
+  PROFILE: "F5XC_PROFILE",
+  // External command that prints credentials as JSON
+  CREDENTIAL_PROCESS: "F5XC_CREDENTIAL_PROCESS",
+  // TLS configuration
+  TLS_INSECURE: "F5XC_TLS_INSECURE",
+  CA_BUNDLE: "F5XC_CA_BUNDLE",
+  // Proxy configuration (HTTPS_PROXY / NO_PROXY apply when unset)
+  PROXY: "F5XC_PROXY",
+  NO_PROXY: "F5XC_NO_PROXY",
+} as const;
+
+/**
+ * Credential source data produced by a provider
+ * Profile fields plus TLS settings that only environment variables carry today.
+ */
+export type CredentialSource = Profile & {
+  tlsInsecure?: boolean;
+  caBundle?: string;
+};
+
+/**
+ * Result of asking a provider for credentials
+ */
+export type CredentialProviderResult =
+  | {
+      /** Credential source to build credentials from */
+      source: CredentialSource;
+      /** Profile name reported by getActiveProfile() (null for non-profile sources) */
+      profileName?: string | null;
+    }
+  | {
+      /** Why the provider had nothing to offer */
+      skip: string;
+    };
+
+/**
+ * A source of credentials in the provider chain
+ */
+export interface CredentialProvider {
+  /** Provider name used in introspection and logs */
+  readonly name: string;
+  /** Load credential source data, or report why it was skipped */
+  load(): Promise<CredentialProviderResult>;
+}
+
+/**
+ * Outcome of a single provider during resolution
+ */
+export interface CredentialProviderAttempt {
+  /** Provider name */
+  provider: string;
+  /** Whether this provider supplied the credentials */
+  status: "resolved" | "skipped";
+  /** Human-readable explanation */
+  reason: string;
+}
+
+/**
+ * How the current credentials were resolved
+ */
+export interface CredentialResolution {
+  /** Winning provider, or null in documentation mode */
+  provider: string | null;
+  /** Every provider consulted, in order */
+  attempts: CredentialProviderAttempt[];
+}
+
+/**
+ * Provider reading F5XC_* environment variables
+ */
+export function environmentProvider(): CredentialProvider {
+  return {
+    name: "environment",
+    async load() {
+      const apiUrl = process.env[AUTH_ENV_VARS.API_URL];
+      const apiToken = process.env[AUTH_ENV_VARS.API_TOKEN];
+      const p12Bundle = process.env[AUTH_ENV_VARS.P12_BUNDLE];
+      const cert = process.env[AUTH_ENV_VARS.CERT];
+      const key = process.env[AUTH_ENV_VARS.KEY];
+      const credentialProcess = process.env[AUTH_ENV_VARS.CREDENTIAL_PROCESS];
+
+      if (!apiUrl) {
+        return { skip: `${AUTH_ENV_VARS.API_URL} is not set` };
+      }
+
+      if (!(apiToken || p12Bundle || (cert && key) || credentialProcess)) {
+        return {
+          skip: `${AUTH_ENV_VARS.API_URL} is set but no authentication variables are set`,
+        };
+      }
+
+      return {
+        source: {
+          name: "__env__",
+          apiUrl,
+          apiToken,
+          p12Bundle,
+          p12Password: process.env[AUTH_ENV_VARS.P12_PASSWORD],
+          cert,
+          key,
+          credentialProcess,
+          defaultNamespace: process.env[AUTH_ENV_VARS.NAMESPACE],
+          tlsInsecure: process.env[AUTH_ENV_VARS.TLS_INSECURE]?.toLowerCase() === "true",
+          caBundle: process.env[AUTH_ENV_VARS.CA_BUNDLE],
+          proxy: process.env[AUTH_ENV_VARS.PROXY],
+          noProxy: process.env[AUTH_ENV_VARS.NO_PROXY],
+        },
+        profileName: null,
+      };
+    },
+  };
+}
+
+/**
+ * Provider reading the active profile from ~/.config/f5xc/
+ */
+export function activeProfileProvider(): CredentialProvider {
+  return {
+    name: "active-profile",
+    async load() {
+      try {
+        const profile = await getProfileManager().getActiveProfile();
+        if (!profile) {
+          return { skip: "no active profile" };
+        }
+        return { source: profile, profileName: profile.name };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (error instanceof ConfigurationError) {
+          // e.g. encrypted profile without a decryption key - the user needs to see this
+          logger.error("Failed to load credentials from profile", { error: message });
+        } else {
+          logger.debug("Failed to load credentials from profile", { error: message });
+        }
+        return { skip: `failed to load active profile: ${message}` };
+      }
+    },
+  };
+}
+
+/**
+ * Named profile provider options
+ */
+export interface NamedProfileProviderOptions {
+  /**
+   * Throw a ConfigurationError when the profile does not exist instead of
+   * skipping to the next provider (default: false)
+   */
+  required?: boolean;
+}
+
+/**
+ * Provider reading a specific profile by name
+ *
+ * @param name - Profile name
+ * @param options - Provider options
+ * @throws {ConfigurationError} From load() if the profile is required and missing
+ */
+export function namedProfileProvider(
+  name: string,
+  options: NamedProfileProviderOptions = {}
+): CredentialProvider {
+  return {
+    name: `profile:${name}`,
+    async load() {
+      const profileManager = getProfileManager();
+      const profile = await profileManager.get(name);
+      if (profile) {
+        return { source: profile, profileName: profile.name };
+      }
+
+      if (!options.required) {
+        return { skip: `profile '${name}' not found` };
+      }
+
+      let available = "none";
+      try {
+        const profiles = await profileManager.list();
+        if (profiles.length > 0) {
+          available = profiles.map(p => p.name).join(", ");
+        }
+      } catch {
+        // Listing is best-effort - the missing profile is the real error
+      }
+
+      throw new ConfigurationError(
+        `Profile '${name}' not found. Available profiles: ${available}. ` +
+          `Check ${AUTH_ENV_VARS.PROFILE} or the CredentialManager 'profile' option.`,
+        { profile: name }
+      );
+    },
+  };
+}
+
+/**
+ * Token file provider options
+ */
+export interface TokenFileProviderOptions {
+  /** Tenant API URL */
+  apiUrl: string;
+  /** File containing the API token (surrounding whitespace is ignored) */
+  tokenFile: string;
+  /** Default namespace */
+  defaultNamespace?: string;
+}
+
+/**
+ * Provider reading an API token from a file (e.g. a mounted secret)
+ */
+export function tokenFileProvider(options: TokenFileProviderOptions): CredentialProvider {
+  return {
+    name: "token-file",
+    async load() {
+      let token: string;
+      try {
+        token = (await readFile(validateFilePath(options.tokenFile), "utf-8")).trim();
+      } catch (error) {
+        return {
+          skip: `cannot read token file ${sanitizePathForLog(options.tokenFile)}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        };
+      }
+
+      if (!token) {
+        return { skip: `token file ${sanitizePathForLog(options.tokenFile)} is empty` };
+      }
+
+      return {
+        source: {
+          name: "__token_file__",
+          apiUrl: options.apiUrl,
+          apiToken: token,
+          defaultNamespace: options.defaultNamespace,
+        },
+        profileName: null,
+      };
+    },
+  };
+}
+
+/**
+ * Provider backed by a custom fetch function
+ *
+ * @param name - Provider name
+ * @param fetch - Returns credential source data, or null to skip
+ */
+export function customProvider(
+  name: string,
+  fetch: () => Promise<CredentialSource | null>
+): CredentialProvider {
+  return {
+    name,
+    async load() {
+      const source = await fetch();
+      if (!source) {
+        return { skip: "provider returned no credentials" };
+      }
+      return { source, profileName: null };
+    },
+  };
+}
+
+/**
+ * Ordered list of credential providers
+ */
+export class CredentialProviderChain {
+  private providers: CredentialProvider[];
+
+  constructor(providers: CredentialProvider[] = []) {
+    this.providers = [...providers];
+  }
+
+  /**
+   * Default chain: environment variables, then the active profile
+   *
+   * When a profile is selected (option or F5XC_PROFILE), it replaces the
+   * shared active profile and must exist.
+   *
+   * @param options.profile - Profile to use instead of the active profile
+   */
+  static default(options: { profile?: string } = {}): CredentialProviderChain {
+    const profile = options.profile ?? process.env[AUTH_ENV_VARS.PROFILE];
+    return new CredentialProviderChain([
+      environmentProvider(),
+      profile ? namedProfileProvider(profile, { required: true }) : activeProfileProvider(),
+    ]);
+  }
+
+  /**
+   * Append a provider (lowest priority)
+   */
+  add(provider: CredentialProvider): this {
+    this.providers.push(provider);
+    return this;
+  }
+
+  /**
+   * Prepend a provider (highest priority)
+   */
+  prepend(provider: CredentialProvider): this {
+    this.providers.unshift(provider);
+    return this;
+  }
+
+  /**
+   * Remove all providers with the given name
+   */
+  remove(name: string): this {
+    this.providers = this.providers.filter(provider => provider.name !== name);
+    return this;
+  }
+
+  /**
+   * Providers in resolution order
+   */
+  getProviders(): readonly CredentialProvider[] {
+    return this.providers;
+  }
+
+  /**
+   * Provider names in resolution order
+   */
+  names(): string[] {
+    return this.providers.map(provider => provider.name);
+  }
+}
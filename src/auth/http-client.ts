@@ -14,10 +14,53 @@ import axios, {
   InternalAxiosRequestConfig,
 } from "axios";
 import https from "https";
+import { EventEmitter } from "events";
+import { Readable } from "stream";
 import { CredentialManager, AuthMode } from "./credential-manager.js";
 import { logger } from "../utils/logging.js";
-import { F5XCApiError, AuthenticationError, wrapSSLError } from "../utils/errors.js";
+import {
+  F5XCApiError,
+  AuthenticationError,
+  ConfigurationError,
+  RequestCancelledError,
+  DeadlineExceededError,
+  NetworkError,
+  createApiError,
+  createNetworkError,
+  wrapSSLError,
+} from "../utils/errors.js";
 import { sanitizeUrlForLog } from "../utils/path-security.js";
+import { sleep } from "../utils/abort.js";
+import { generateRequestId, getCorrelationId } from "../utils/correlation.js";
+import { sanitizeProxyUrl } from "../utils/url.js";
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitState,
+  type CircuitStateChangeEvent,
+} from "./circuit-breaker.js";
+import { MiddlewarePipeline, type Middleware, type MiddlewareContext } from "./middleware.js";
+import { ProxyTunnelAgent, resolveProxy } from "./proxy.js";
+import type { Cassette } from "./cassette.js";
+import {
+  METRIC_NAMES,
+  SpanStatusCode,
+  noopInstrumentation,
+  type Attributes,
+  type Instrumentation,
+  type Span,
+} from "./instrumentation.js";
+import {
+  RateLimiter,
+  getSharedRateLimiter,
+  rateLimiterKey,
+  releaseSharedRateLimiter,
+  type AdaptiveRateLimitOptions,
+  type RateLimiterOptions,
+  type RateLimiterStats,
+} from "./rate-limiter.js";
+
+export type { AdaptiveRateLimitOptions } from "./rate-limiter.js";
 
 /**
  * HTTP client configuration options
@@ -29,6 +72,21 @@ export interface HttpClientConfig {
   headers?: Record<string, string>;
   /** Enable request/response logging */
   debug?: boolean;
+  /**
+   * Header carrying a generated ID on every request (default: 'X-Request-Id',
+   * false to disable). A value set by the caller is kept.
+   */
+  requestIdHeader?: string | false;
+  /**
+   * Header carrying the correlation ID set with withCorrelationId()
+   * (default: 'X-Correlation-Id', false to disable)
+   */
+  correlationIdHeader?: string | false;
+  /**
+   * Default overall deadline per request in milliseconds, covering rate limit
+   * queueing, retries and backoff (default: 0, no deadline)
+   */
+  deadline?: number;
   /** Rate limiting configuration */
   rateLimit?: {
     /** Maximum requests per time window */
@@ -37,7 +95,31 @@ export interface HttpClientConfig {
     perMilliseconds?: number;
     /** Maximum concurrent requests */
     maxConcurrent?: number;
+    /**
+     * Adapt the request rate to throttling feedback (default: false).
+     * The configured rate becomes the ceiling.
+     */
+    adaptive?: boolean | AdaptiveRateLimitOptions;
+    /**
+     * Share one limiter with every other client using the same tenant and
+     * credentials (default: false). The first client's limits apply.
+     */
+    shared?: boolean;
   };
+  /**
+   * Fail fast while a tenant endpoint is down (default: false).
+   * Opens after consecutive network errors, timeouts or 5xx responses.
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+  /**
+   * Receiver of request spans and metrics (default: none)
+   * See the instrumentation module for an OpenTelemetry adapter.
+   */
+  instrumentation?: Instrumentation;
+  /** Request hooks, in order (more can be added with use()) */
+  middleware?: Middleware[];
+  /** Record responses to, or replay them from, a cassette (default: none) */
+  cassette?: Cassette | null;
   /** Retry configuration */
   retry?: {
     /** Number of retry attempts */
@@ -46,6 +128,22 @@ export interface HttpClientConfig {
     retryDelay?: "exponential" | "linear";
     /** HTTP status codes to retry on */
     retryOn?: number[];
+    /**
+     * Randomization applied to backoff delays (default: 'full')
+     * - 'none': exact exponential/linear delays
+     * - 'full': random delay between 0 and the exponential/linear delay
+     * - 'decorrelated': random delay between baseDelay and 3x the previous delay
+     */
+    jitter?: "none" | "full" | "decorrelated";
+    /** Base delay in milliseconds (default: 1000) */
+    baseDelay?: number;
+    /** Maximum delay between attempts in milliseconds (default: 30000) */
+    maxDelay?: number;
+    /**
+     * Wait at least as long as Retry-After / rate-limit reset headers ask
+     * (default: true). Requests whose server delay exceeds maxDelay are not retried.
+     */
+    respectRetryAfter?: boolean;
   };
 }
 
@@ -56,18 +154,100 @@ const DEFAULT_CONFIG: Required<HttpClientConfig> = {
   timeout: 30000, // 30 seconds
   headers: {},
   debug: false,
+  requestIdHeader: "X-Request-Id",
+  correlationIdHeader: "X-Correlation-Id",
+  deadline: 0,
+  circuitBreaker: false,
+  instrumentation: noopInstrumentation,
+  middleware: [],
+  cassette: null,
   rateLimit: {
     maxRequests: 10,
     perMilliseconds: 1000,
     maxConcurrent: 5,
+    adaptive: false,
+    shared: false,
   },
   retry: {
     retries: 3,
     retryDelay: "exponential",
     retryOn: [429, 500, 502, 503, 504],
+    jitter: "full",
+    baseDelay: 1000,
+    maxDelay: 30000,
+    respectRetryAfter: true,
   },
 };
 
+/**
+ * Events emitted by HttpClient
+ */
+export interface HttpClientEvents {
+  /** A tenant endpoint's circuit breaker changed state */
+  circuitStateChange: [CircuitStateChangeEvent];
+}
+
+/**
+ * Per-request options
+ *
+ * `signal` cancels the whole request: rate limit queueing, every attempt and
+ * backoff between retries, not only the HTTP call in flight.
+ */
+export interface RequestOptions extends AxiosRequestConfig {
+  /** Overall deadline in milliseconds (overrides the client default, 0 for none) */
+  deadline?: number;
+}
+
+/**
+ * Options for paginate()
+ *
+ * - 'token': follow a next-page token from each response until it is empty
+ *   (also handles unpaged lists, which return a single page)
+ * - 'offset': send offset/limit and advance until a short or empty page
+ */
+export interface PaginateOptions extends RequestOptions {
+  /** Paging style (default: 'token') */
+  style?: "token" | "offset";
+  /** Items per page, sent as pageSizeParam (required for 'offset') */
+  pageSize?: number;
+  /** Query parameter for the page size (default: 'page_size', or 'limit' for 'offset') */
+  pageSizeParam?: string;
+  /** Response field holding the page's items (default: 'items') */
+  itemsField?: string;
+  /** Response field holding the next page token (default: 'next_page_token') */
+  nextTokenField?: string;
+  /** Query parameter carrying the page token (default: 'page_token') */
+  tokenParam?: string;
+  /** Query parameter carrying the offset (default: 'offset') */
+  offsetParam?: string;
+  /** Stop after this many items (default: all) */
+  maxItems?: number;
+}
+
+/**
+ * Instrumentation state of one request
+ */
+interface RequestTrace {
+  span: Span;
+  /** Attributes shared by the request's metrics */
+  attributes: Attributes;
+  retries: number;
+}
+
+/**
+ * Namespace segment of config and web API paths
+ */
+const NAMESPACE_PATH_PATTERN = /\/namespaces\/([^/?]+)/;
+
+/**
+ * Circuit states as gauge values
+ */
+const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = {
+  closed: 0,
+  "half-open": 1,
+  open: 2,
+};
+
 /**
  * API response wrapper with metadata
  */
@@ -78,93 +258,100 @@ export interface ApiResponse<T = unknown> {
   status: number;
   /** Response headers */
   headers: Record<string, string>;
-  /** Request duration in milliseconds */
+  /** Request duration in milliseconds (final attempt) */
   duration: number;
+  /** Number of retries before this response (0 if the first attempt succeeded) */
+  retries: number;
+  /** Request ID returned by the server, or the one sent if none was returned */
+  requestId?: string;
 }
 
 /**
- * Token Bucket Rate Limiter
- * Implements token bucket algorithm for rate limiting requests
+ * Read the server-requested retry delay from response headers
+ *
+ * Supports Retry-After (seconds or HTTP date), RateLimit-Reset (seconds) and
+ * X-RateLimit-Reset (seconds, or a Unix timestamp).
+ *
+ * @returns Delay in milliseconds, or null if no header is present
  */
-class TokenBucket {
-  private tokens: number;
-  private lastRefill: number;
-  private readonly capacity: number;
-  private readonly refillRate: number; // tokens per second
-
-  constructor(capacity: number, refillRate: number) {
-    this.capacity = capacity;
-    this.refillRate = refillRate;
-    this.tokens = capacity;
-    this.lastRefill = Date.now();
+function parseRetryAfter(headers: unknown, now: number = Date.now()): number | null {
+  if (!headers || typeof headers !== "object") {
+    return null;
   }
+  const values = headers as Record<string, unknown>;
+  const header = (name: string): string | null => {
+    const value = values[name] ?? values[name.toLowerCase()];
+    return value === undefined || value === null ? null : String(value).trim();
+  };
 
-  /**
-   * Consume tokens and wait if necessary
-   * @param tokens Number of tokens to consume (default: 1)
-   * @returns Promise that resolves when tokens are available
-   */
-  async consume(tokens: number = 1): Promise<void> {
-    this.refill();
-
-    if (this.tokens < tokens) {
-      const waitTime = ((tokens - this.tokens) / this.refillRate) * 1000;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-      this.refill();
+  const retryAfter = header("retry-after");
+  if (retryAfter) {
+    if (/^\d+(\.\d+)?$/.test(retryAfter)) {
+      return Math.round(parseFloat(retryAfter) * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - now);
     }
-
-    this.tokens -= tokens;
   }
 
-  /**
-   * Refill tokens based on elapsed time
-   */
-  private refill(): void {
-    const now = Date.now();
-    const elapsed = (now - this.lastRefill) / 1000;
-    const tokensToAdd = elapsed * this.refillRate;
-
-    this.tokens = Math.min(this.capacity, this.tokens + tokensToAdd);
-    this.lastRefill = now;
+  const reset = header("ratelimit-reset") ?? header("x-ratelimit-reset");
+  if (reset && /^\d+(\.\d+)?$/.test(reset)) {
+    const seconds = parseFloat(reset);
+    // Large values are absolute Unix timestamps rather than deltas
+    return seconds > 1e9 ? Math.max(0, seconds * 1000 - now) : Math.round(seconds * 1000);
   }
+
+  return null;
 }
 
 /**
- * Concurrent request limiter
- * Limits the number of concurrent requests
+ * Read a header case-insensitively from plain or AxiosHeaders objects
  */
-class ConcurrentLimiter {
-  private active = 0;
-  private queue: Array<() => void> = [];
-
-  constructor(private readonly maxConcurrent: number) {}
-
-  /**
-   * Acquire a slot for request execution
-   * @returns Promise that resolves when slot is available
-   */
-  async acquire(): Promise<void> {
-    if (this.active < this.maxConcurrent) {
-      this.active++;
-      return;
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== "object") {
+    return undefined;
+  }
+  const wanted = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === wanted && value !== undefined && value !== null) {
+      return String(value);
     }
+  }
+  return undefined;
+}
 
-    return new Promise(resolve => {
-      this.queue.push(resolve);
-    });
+/**
+ * Check for an object literal (not a Buffer, stream, FormData, URLSearchParams...)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) {
+    return false;
   }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
 
-  /**
-   * Release a slot after request completion
-   */
-  release(): void {
-    this.active--;
-    const next = this.queue.shift();
-    if (next) {
-      this.active++;
-      next();
+/**
+ * Normalize an error response body for messages and F5XCApiError.response
+ *
+ * Binary bodies (arraybuffer requests) are decoded as JSON when possible.
+ * Stream bodies are destroyed so the connection is released.
+ */
+function readErrorBody(data: unknown): unknown {
+  if (data instanceof Readable) {
+    data.destroy();
+    return undefined;
+  }
+  if (data instanceof ArrayBuffer || Buffer.isBuffer(data)) {
+    const text = Buffer.from(data as ArrayBuffer).toString("utf-8");
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text || undefined;
     }
   }
+  return data;
 }
 
 /**
@@ -173,12 +360,18 @@ class ConcurrentLimiter {
  * Creates and manages an authenticated Axios instance for making
  * API requests to F5 Distributed Cloud.
  */
-export class HttpClient {
+export class HttpClient extends EventEmitter<HttpClientEvents> {
   private client: AxiosInstance | null = null;
+  private httpsAgent: https.Agent | null = null;
+  /** In-flight requests per HTTPS agent, so replaced agents are closed once idle */
+  private agentRequests = new Map<https.Agent, number>();
+  /** Credential generation the current client was built from */
+  private clientGeneration = -1;
   private credentialManager: CredentialManager;
   private config: Required<HttpClientConfig>;
-  private rateLimiter: TokenBucket;
-  private concurrentLimiter: ConcurrentLimiter;
+  private rateLimiter: RateLimiter;
+  private circuitBreakers = new Map<string, CircuitBreaker>();
+  private middleware: MiddlewarePipeline;
 
   /**
    * Creates an HTTP client for F5 Distributed Cloud API requests.
@@ -191,21 +384,30 @@ export class HttpClient {
    * - Implements retry logic with exponential backoff (3 retries)
    * - Transforms responses to typed ApiResponse objects
    * - Handles common error scenarios with actionable guidance
+   * - Rebuilds itself when the credential manager reloads credentials
    *
    * @param credentialManager - Manages authentication credentials and profiles.
-   *   Must be initialized before creating the HTTP client.
+   *   Should be initialized before creating the HTTP client; credentials that
+   *   load later are picked up on the next request.
    * @param config - Optional HTTP client configuration
    * @param config.timeout - Request timeout in milliseconds (default: 30000)
    * @param config.headers - Additional headers to include in all requests
    * @param config.debug - Enable request/response logging (default: false)
+   * @param config.deadline - Overall per-request deadline in ms, including queueing and retries (default: none)
+   * @param config.circuitBreaker - Fail fast after consecutive failures, per tenant endpoint (default: false)
    * @param config.rateLimit - Rate limiting configuration
    * @param config.rateLimit.maxRequests - Maximum requests per time window (default: 10)
    * @param config.rateLimit.perMilliseconds - Time window in milliseconds (default: 1000)
    * @param config.rateLimit.maxConcurrent - Maximum concurrent requests (default: 5)
+   * @param config.rateLimit.adaptive - Lower the rate on 429/Retry-After and recover on success (default: false)
    * @param config.retry - Retry configuration
    * @param config.retry.retries - Number of retry attempts (default: 3)
    * @param config.retry.retryDelay - Retry delay strategy: 'exponential' or 'linear' (default: 'exponential')
    * @param config.retry.retryOn - HTTP status codes to retry on (default: [429, 500, 502, 503, 504])
+   * @param config.retry.jitter - Backoff randomization: 'none', 'full' or 'decorrelated' (default: 'full')
+   * @param config.retry.baseDelay - Base retry delay in milliseconds (default: 1000)
+   * @param config.retry.maxDelay - Maximum retry delay in milliseconds (default: 30000)
+   * @param config.retry.respectRetryAfter - Honor Retry-After and rate-limit reset headers (default: true)
    *
    * @example Basic usage
    * ```typescript
@@ -250,11 +452,13 @@ export class HttpClient {
    * ```
    *
    * @throws {AuthenticationError} If credentials are invalid or missing when making requests
-   * @throws {F5XCApiError} For API request failures (4xx, 5xx status codes)
+   * @throws {F5XCApiError} For API request failures - NotFoundError, ValidationFailedError, etc. carry a hint
+   * @throws {CircuitOpenError} While the circuit breaker for the tenant is open
    * @throws {SSLCertificateError} For SSL/TLS certificate validation failures
    * @throws {NetworkError} For network connectivity issues
    */
   constructor(credentialManager: CredentialManager, config: HttpClientConfig = {}) {
+    super();
     this.credentialManager = credentialManager;
     this.config = {
       ...DEFAULT_CONFIG,
@@ -263,18 +467,151 @@ export class HttpClient {
       retry: { ...DEFAULT_CONFIG.retry, ...config.retry },
     };
 
-    // Initialize rate limiters with guaranteed non-undefined values
-    const maxRequests = this.config.rateLimit.maxRequests!;
-    const perMilliseconds = this.config.rateLimit.perMilliseconds!;
-    const maxConcurrent = this.config.rateLimit.maxConcurrent!;
+    // Own limiter until credentials identify a shared one (see syncClient)
+    this.rateLimiter = new RateLimiter(this.getRateLimiterOptions());
+    this.middleware = new MiddlewarePipeline(this.config.middleware);
+
+    this.syncClient();
+  }
+
+  /**
+   * Get the axios instance for the current credentials
+   *
+   * Rebuilds the instance and HTTPS agent when the credential manager's
+   * generation has changed (reload, profile switch, token rotation). The old
+   * agent's pooled connections were authenticated with the old credentials;
+   * they are closed once its in-flight requests finish (see retireAgent).
+   *
+   * @returns Client, or null when the credential manager is unauthenticated
+   * @throws {AuthenticationError} If the new credentials are incomplete
+   */
+  private syncClient(): AxiosInstance | null {
+    const generation = this.credentialManager.getGeneration();
+    if (generation === this.clientGeneration) {
+      return this.client;
+    }
+
+    const rebuilding = this.clientGeneration !== -1;
+    // Build first: if this throws, the current client and agent stay owned
+    // and the rebuild is retried on the next call
+    const built = this.credentialManager.isAuthenticated() ? this.createClient() : null;
 
-    const refillRate = maxRequests / (perMilliseconds / 1000);
-    this.rateLimiter = new TokenBucket(maxRequests, refillRate);
-    this.concurrentLimiter = new ConcurrentLimiter(maxConcurrent);
+    const previousAgent = this.httpsAgent;
+    this.client = built?.client ?? null;
+    this.httpsAgent = built?.agent ?? null;
+    if (built && this.config.rateLimit.shared) {
+      this.useSharedRateLimiter();
+    }
+    this.clientGeneration = generation;
+    if (previousAgent) {
+      this.retireAgent(previousAgent);
+    }
 
-    if (this.credentialManager.isAuthenticated()) {
-      this.client = this.createClient();
+    if (rebuilding) {
+      logger.info("HTTP client rebuilt for reloaded credentials", {
+        generation,
+        available: this.client !== null,
+      });
     }
+    return this.client;
+  }
+
+  /**
+   * Close a replaced agent's idle sockets, now or after its last in-flight request
+   * Requests still running on it are left to finish on their connections.
+   */
+  private retireAgent(agent: https.Agent): void {
+    if (agent === this.httpsAgent || this.agentRequests.has(agent)) {
+      return;
+    }
+    for (const sockets of Object.values(agent.freeSockets)) {
+      sockets?.forEach(socket => socket.destroy());
+    }
+  }
+
+  /**
+   * Send a request on the current client, counting it against its HTTPS agent
+   * Stream responses hold their connection until the stream closes.
+   */
+  private async dispatch<T>(request: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const client = this.requireClient();
+    const agent = this.httpsAgent;
+    if (!agent) {
+      return client.request<T>(request);
+    }
+
+    this.agentRequests.set(agent, (this.agentRequests.get(agent) ?? 0) + 1);
+    const release = (): void => {
+      const remaining = (this.agentRequests.get(agent) ?? 1) - 1;
+      if (remaining > 0) {
+        this.agentRequests.set(agent, remaining);
+        return;
+      }
+      this.agentRequests.delete(agent);
+      this.retireAgent(agent);
+    };
+
+    let response: AxiosResponse<T>;
+    try {
+      response = await client.request<T>(request);
+    } catch (error) {
+      release();
+      throw error;
+    }
+    if (response.data instanceof Readable) {
+      response.data.once("close", release);
+    } else {
+      release();
+    }
+    return response;
+  }
+
+  /**
+   * Rate limiter options with guaranteed non-undefined values
+   */
+  private getRateLimiterOptions(): RateLimiterOptions {
+    return {
+      maxRequests: this.config.rateLimit.maxRequests!,
+      perMilliseconds: this.config.rateLimit.perMilliseconds!,
+      maxConcurrent: this.config.rateLimit.maxConcurrent!,
+      adaptive: this.config.rateLimit.adaptive,
+    };
+  }
+
+  /**
+   * Switch to the shared limiter for the current tenant and credentials
+   */
+  private useSharedRateLimiter(): void {
+    const apiUrl = this.credentialManager.getApiUrl();
+    const identity =
+      this.credentialManager.getToken() ??
+      this.credentialManager.getP12Certificate() ??
+      this.credentialManager.getCert();
+    if (!apiUrl || !identity) {
+      return;
+    }
+
+    const key = rateLimiterKey(apiUrl, identity);
+    if (this.rateLimiter.key !== key) {
+      // Requests in flight keep their reference to the previous limiter
+      releaseSharedRateLimiter(this.rateLimiter);
+      this.rateLimiter = getSharedRateLimiter(key, this.getRateLimiterOptions());
+      logger.debug("Using shared rate limiter", { key });
+    }
+  }
+
+  /**
+   * Get the axios instance, failing in documentation mode
+   */
+  private requireClient(): AxiosInstance {
+    const client = this.syncClient();
+    if (!client) {
+      throw new AuthenticationError(
+        "HTTP client not available - server is in documentation mode. " +
+          "Set F5XC_API_URL and F5XC_API_TOKEN (or F5XC_P12_BUNDLE for certificate auth) to enable API execution."
+      );
+    }
+    return client;
   }
 
   /**
@@ -313,10 +650,63 @@ export class HttpClient {
     return options;
   }
 
+  /**
+   * Route the client through the configured proxy, if any
+   * HTTPS targets are tunnelled with CONNECT so the agent's TLS options
+   * (client certificate, CA) still apply; plain HTTP targets use Axios's
+   * proxy support. Axios's own environment lookup is always disabled.
+   */
+  private configureProxy(
+    axiosConfig: AxiosRequestConfig,
+    baseURL: string,
+    tlsOptions: https.AgentOptions,
+    agentOptions: https.AgentOptions | null
+  ): void {
+    const proxy = resolveProxy(baseURL, {
+      proxy: this.credentialManager.getProxy(),
+      noProxy: this.credentialManager.getNoProxy(),
+    });
+    axiosConfig.proxy = false;
+
+    if (proxy && new URL(baseURL).protocol === "https:") {
+      logger.info("Using proxy", { proxy: sanitizeProxyUrl(proxy) });
+      axiosConfig.httpsAgent = new ProxyTunnelAgent(
+        proxy,
+        agentOptions ?? tlsOptions,
+        this.config.timeout
+      );
+      return;
+    }
+
+    if (agentOptions) {
+      axiosConfig.httpsAgent = new https.Agent(agentOptions);
+    }
+    if (!proxy) {
+      return;
+    }
+
+    logger.info("Using proxy", { proxy: sanitizeProxyUrl(proxy) });
+    axiosConfig.proxy = {
+      protocol: proxy.protocol.replace(/:$/, ""),
+      host: proxy.hostname.replace(/^\[|\]$/g, ""),
+      port: Number(proxy.port) || (proxy.protocol === "https:" ? 443 : 80),
+      ...(proxy.username || proxy.password
+        ? {
+            auth: {
+              username: decodeURIComponent(proxy.username),
+              password: decodeURIComponent(proxy.password),
+            },
+          }
+        : {}),
+    };
+  }
+
   /**
    * Create configured Axios client
+   *
+   * @returns The client and the HTTPS agent it uses (if any)
    */
-  private createClient(): AxiosInstance {
+  private createClient(): { client: AxiosInstance; agent: https.Agent | null } {
     const authMode = this.credentialManager.getAuthMode();
     const baseURL = this.credentialManager.getApiUrl();
 
@@ -336,6 +726,7 @@ export class HttpClient {
 
     // Get TLS configuration options
     const tlsOptions = this.buildHttpsAgentOptions();
+    let agentOptions: https.AgentOptions | null = null;
 
     // Configure authentication
     if (authMode === AuthMode.TOKEN) {
@@ -350,7 +741,7 @@ export class HttpClient {
 
       // Apply TLS configuration for token auth (needed for custom CA or insecure mode)
       if (tlsOptions.ca || !tlsOptions.rejectUnauthorized) {
-        axiosConfig.httpsAgent = new https.Agent(tlsOptions);
+        agentOptions = tlsOptions;
       }
     } else if (authMode === AuthMode.CERTIFICATE) {
       const p12Buffer = this.credentialManager.getP12Certificate();
@@ -359,18 +750,19 @@ export class HttpClient {
 
       if (p12Buffer) {
         // Create HTTPS agent with P12 certificate for mTLS
-        // F5XC P12 certificates typically don't require a password
-        axiosConfig.httpsAgent = new https.Agent({
+        // Console-issued API credentials are password-protected
+        agentOptions = {
           ...tlsOptions,
           pfx: p12Buffer,
-        });
+          passphrase: this.credentialManager.getP12Password() ?? undefined,
+        };
       } else if (cert && key) {
         // Create HTTPS agent with separate cert/key for mTLS
-        axiosConfig.httpsAgent = new https.Agent({
+        agentOptions = {
           ...tlsOptions,
           cert,
           key,
-        });
+        };
       } else {
         throw new AuthenticationError(
           "Certificate not loaded - provide P12 bundle or cert/key pair"
@@ -378,6 +770,16 @@ export class HttpClient {
       }
     }
 
+    this.configureProxy(axiosConfig, baseURL, tlsOptions, agentOptions);
+
+    if (this.config.cassette) {
+      axiosConfig.adapter = this.config.cassette.createAdapter(this.credentialManager.getTenant());
+      logger.info("Using cassette", {
+        path: this.config.cassette.path,
+        mode: this.config.cassette.mode,
+      });
+    }
+
     const client = axios.create(axiosConfig);
 
     // Add request interceptor for logging
@@ -441,17 +843,51 @@ export class HttpClient {
             throw wrapSSLError(error, baseURL);
           }
 
-          const status = error.response?.status;
-          const message = error.response?.data?.message ?? error.message;
+          const requestId = this.readRequestId(error.response?.headers, error.config?.headers);
+
+          // No response: classify the network failure
+          if (!error.response) {
+            const networkError = createNetworkError(error, {
+              url: error.config?.baseURL ?? baseURL,
+              method: error.config?.method,
+              timeout: error.config?.timeout,
+              requestId,
+            });
+
+            logger.error("Network Error", {
+              reason: networkError.reason,
+              code: error.code,
+              retryable: networkError.retryable,
+              url: sanitizeUrlForLog(error.config?.url),
+              requestId,
+            });
+
+            throw networkError;
+          }
+
+          const status = error.response.status;
+
+          // Transform to a typed F5XC API error, keeping what the retry logic needs
+          const apiError = createApiError(
+            status,
+            readErrorBody(error.response.data),
+            error.message,
+            {
+              code: error.code,
+              retryAfterMs: parseRetryAfter(error.response.headers) ?? undefined,
+              requestId,
+            }
+          );
 
           logger.error("API Error", {
             status,
-            message,
+            message: apiError.message,
+            type: apiError.name,
             url: sanitizeUrlForLog(error.config?.url),
+            requestId,
           });
 
-          // Transform to F5XC API error
-          throw new F5XCApiError(message, status, error.response?.data);
+          throw apiError;
         }
 
         throw error;
@@ -464,20 +900,24 @@ export class HttpClient {
       timeout: this.config.timeout,
     });
 
-    return client;
+    return { client, agent: axiosConfig.httpsAgent ?? null };
   }
 
   /**
    * Check if the client is available (authenticated mode)
    */
   isAvailable(): boolean {
-    return this.client !== null;
+    try {
+      return this.syncClient() !== null;
+    } catch {
+      return false;
+    }
   }
 
   /**
    * Make a GET request
    */
-  async get<T = unknown>(path: string, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
+  async get<T = unknown>(path: string, config?: RequestOptions): Promise<ApiResponse<T>> {
     return this.request<T>("GET", path, undefined, config);
   }
 
@@ -487,7 +927,7 @@ export class HttpClient {
   async post<T = unknown>(
     path: string,
     data?: unknown,
-    config?: AxiosRequestConfig
+    config?: RequestOptions
   ): Promise<ApiResponse<T>> {
     return this.request<T>("POST", path, data, config);
   }
@@ -498,88 +938,526 @@ export class HttpClient {
   async put<T = unknown>(
     path: string,
     data?: unknown,
-    config?: AxiosRequestConfig
+    config?: RequestOptions
   ): Promise<ApiResponse<T>> {
     return this.request<T>("PUT", path, data, config);
   }
 
+  /**
+   * Make a PATCH request
+   */
+  async patch<T = unknown>(
+    path: string,
+    data?: unknown,
+    config?: RequestOptions
+  ): Promise<ApiResponse<T>> {
+    return this.request<T>("PATCH", path, data, config);
+  }
+
   /**
    * Make a DELETE request
    */
-  async delete<T = unknown>(path: string, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
+  async delete<T = unknown>(path: string, config?: RequestOptions): Promise<ApiResponse<T>> {
     return this.request<T>("DELETE", path, undefined, config);
   }
 
   /**
-   * Make a generic request with rate limiting and retry logic
+   * Make a HEAD request (status and headers only)
+   */
+  async head(path: string, config?: RequestOptions): Promise<ApiResponse<undefined>> {
+    return this.request<undefined>("HEAD", path, undefined, config);
+  }
+
+  /**
+   * Download a response body as a stream without buffering it
+   *
+   * Retries, `signal` and `deadline` apply until the response headers arrive.
+   * The caller must consume or destroy the stream.
+   *
+   * @example
+   * ```typescript
+   * const { data } = await client.getStream("/web/namespaces/system/sites/my-site/kubeconfig");
+   * await pipeline(data, createWriteStream("kubeconfig.yaml"));
+   * ```
+   */
+  async getStream(path: string, config?: RequestOptions): Promise<ApiResponse<Readable>> {
+    return this.request<Readable>("GET", path, undefined, this.rawConfig("stream", config));
+  }
+
+  /**
+   * Download a response body as a Buffer (binary content such as certificates)
+   */
+  async getBuffer(path: string, config?: RequestOptions): Promise<ApiResponse<Buffer>> {
+    const response = await this.request<ArrayBuffer | Buffer>(
+      "GET",
+      path,
+      undefined,
+      this.rawConfig("arraybuffer", config)
+    );
+    return { ...response, data: Buffer.from(response.data as ArrayBuffer) };
+  }
+
+  /**
+   * Request options for non-JSON responses
+   */
+  private rawConfig(
+    responseType: "stream" | "arraybuffer",
+    config: RequestOptions = {}
+  ): RequestOptions {
+    return {
+      ...config,
+      responseType,
+      headers: { Accept: "*/*", ...config.headers },
+    };
+  }
+
+  /**
+   * Iterate over the items of a list endpoint, fetching pages on demand
+   *
+   * Only one page is held in memory at a time. Each page is a regular GET,
+   * so rate limiting, retries, `signal` and `deadline` (per page) apply.
+   * Breaking out of the loop stops fetching.
+   *
+   * @example
+   * ```typescript
+   * for await (const lb of client.paginate<LoadBalancer>(
+   *   "/config/namespaces/default/http_loadbalancers",
+   *   { signal }
+   * )) {
+   *   console.log(lb.name);
+   * }
+   * ```
+   *
+   * @throws {F5XCApiError} If a response has no items array
+   */
+  async *paginate<T = unknown>(
+    path: string,
+    options: PaginateOptions = {}
+  ): AsyncGenerator<T, void, undefined> {
+    const {
+      style = "token",
+      pageSize,
+      pageSizeParam = style === "offset" ? "limit" : "page_size",
+      itemsField = "items",
+      nextTokenField = "next_page_token",
+      tokenParam = "page_token",
+      offsetParam = "offset",
+      maxItems = Infinity,
+      ...requestOptions
+    } = options;
+
+    if (style === "offset" && !(pageSize && pageSize > 0)) {
+      throw new ConfigurationError("Offset pagination requires a positive pageSize");
+    }
+
+    const seenTokens = new Set<string>();
+    let token: string | null = null;
+    let offset = 0;
+    let count = 0;
+
+    while (count < maxItems) {
+      const params: Record<string, unknown> = { ...requestOptions.params };
+      if (pageSize) {
+        params[pageSizeParam] = pageSize;
+      }
+      if (style === "offset") {
+        params[offsetParam] = offset;
+      } else if (token) {
+        params[tokenParam] = token;
+      }
+
+      const response = await this.get<Record<string, unknown>>(path, { ...requestOptions, params });
+      const items = response.data?.[itemsField];
+      if (!Array.isArray(items)) {
+        throw new F5XCApiError(
+          `Paginated response from ${path} has no '${itemsField}' array`,
+          response.status,
+          response.data
+        );
+      }
+
+      for (const item of items) {
+        if (count >= maxItems) {
+          return;
+        }
+        yield item as T;
+        count++;
+      }
+
+      if (style === "offset") {
+        if (items.length < pageSize!) {
+          return;
+        }
+        offset += items.length;
+        continue;
+      }
+
+      const next = response.data[nextTokenField];
+      if (typeof next !== "string" || next === "") {
+        return;
+      }
+      if (seenTokens.has(next)) {
+        logger.warn("Pagination token repeated - stopping", { path, token: next });
+        return;
+      }
+      seenTokens.add(next);
+      token = next;
+    }
+  }
+
+  /**
+   * Make a generic request, reporting a span and metrics
    */
   private async request<T>(
     method: string,
     path: string,
     data?: unknown,
-    config?: AxiosRequestConfig
+    options: RequestOptions = {}
   ): Promise<ApiResponse<T>> {
-    if (!this.client) {
-      throw new AuthenticationError(
-        "HTTP client not available - server is in documentation mode. " +
-          "Set F5XC_API_URL and F5XC_API_TOKEN (or F5XC_P12_BUNDLE for certificate auth) to enable API execution."
-      );
+    this.requireClient();
+
+    const instrumentation = this.config.instrumentation;
+    const attributes: Attributes = {
+      "http.request.method": method.toUpperCase(),
+      "server.address": this.serverAddress(),
+    };
+    const span = instrumentation.startSpan(method.toUpperCase(), { ...attributes, "url.path": path });
+    const trace: RequestTrace = { span, attributes, retries: 0 };
+    const startTime = Date.now();
+    let status: number | undefined;
+    let errorType: string | undefined;
+
+    try {
+      const response = await this.send<T>(method, path, data, options, trace);
+      status = response.status;
+      span.setStatus({ code: SpanStatusCode.OK });
+      return response;
+    } catch (error) {
+      status = this.describeError(error)?.status;
+      errorType = error instanceof Error ? error.name : "Error";
+      if (error instanceof Error) {
+        span.recordException(error);
+      }
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      if (status !== undefined) {
+        span.setAttribute("http.response.status_code", status);
+      }
+      if (trace.retries > 0) {
+        span.setAttribute("http.request.resend_count", trace.retries);
+        instrumentation.recordMetric({
+          name: METRIC_NAMES.RETRIES,
+          type: "counter",
+          value: trace.retries,
+          unit: "{retry}",
+          attributes,
+        });
+      }
+      const circuitState = this.getCircuitState();
+      if (circuitState) {
+        span.setAttribute("f5xc.circuit.state", circuitState);
+      }
+      span.end();
+
+      instrumentation.recordMetric({
+        name: METRIC_NAMES.REQUEST_DURATION,
+        type: "histogram",
+        value: (Date.now() - startTime) / 1000,
+        unit: "s",
+        attributes: { ...attributes, "http.response.status_code": status, "error.type": errorType },
+      });
     }
+  }
 
-    // Apply rate limiting
-    await this.rateLimiter.consume(1);
+  /**
+   * Send a request with rate limiting and retry logic
+   */
+  private async send<T>(
+    method: string,
+    path: string,
+    data: unknown,
+    options: RequestOptions,
+    trace: RequestTrace
+  ): Promise<ApiResponse<T>> {
+    this.getCircuitBreaker()?.throwIfOpen();
 
-    // Apply concurrent request limiting
-    await this.concurrentLimiter.acquire();
+    const { deadline = this.config.deadline, signal, ...config } = options;
+    const cancellation = this.createCancellation(method, path, signal, deadline);
+    config.headers = this.tracingHeaders(config.headers);
 
     try {
-      return await this.executeWithRetry<T>(method, path, data, config);
+      // Apply rate and concurrent request limiting. Keep a reference: credentials
+      // may change (and select another shared limiter) while this request runs.
+      const limiter = this.rateLimiter;
+      await this.acquireLimiter(limiter, cancellation.signal, trace);
+
+      try {
+        return await this.executeWithRetry<T>(
+          method,
+          path,
+          data,
+          { ...config, signal: cancellation.signal },
+          trace,
+          limiter
+        );
+      } finally {
+        limiter.release();
+      }
+    } catch (error) {
+      // Report cancellation rather than the axios error it caused
+      throw cancellation.signal.aborted ? cancellation.signal.reason : error;
     } finally {
-      this.concurrentLimiter.release();
+      cancellation.dispose();
     }
   }
 
+  /**
+   * Wait for the rate limiter, reporting queue depth and wait time
+   */
+  private async acquireLimiter(
+    limiter: RateLimiter,
+    signal: AbortSignal,
+    trace: RequestTrace
+  ): Promise<void> {
+    const instrumentation = this.config.instrumentation;
+    instrumentation.recordMetric({
+      name: METRIC_NAMES.QUEUE_DEPTH,
+      type: "gauge",
+      value: limiter.getStats().queuedRequests,
+      unit: "{request}",
+      attributes: { "server.address": trace.attributes["server.address"] },
+    });
+
+    const waitStart = Date.now();
+    await limiter.acquire(signal);
+    const waited = Date.now() - waitStart;
+
+    trace.span.setAttribute("f5xc.rate_limit.wait_ms", waited);
+    instrumentation.recordMetric({
+      name: METRIC_NAMES.RATE_LIMIT_WAIT,
+      type: "histogram",
+      value: waited / 1000,
+      unit: "s",
+      attributes: trace.attributes,
+    });
+  }
+
+  /**
+   * Tenant host for span and metric attributes
+   */
+  private serverAddress(
+    apiUrl: string | null = this.credentialManager.getApiUrl()
+  ): string | undefined {
+    if (!apiUrl) {
+      return undefined;
+    }
+    try {
+      return new URL(apiUrl).hostname;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Add the request ID and correlation ID headers
+   * The request ID is generated once per call, so retries share it.
+   */
+  private tracingHeaders(headers: RequestOptions["headers"]): RequestOptions["headers"] {
+    const { requestIdHeader, correlationIdHeader } = this.config;
+    const tracing: Record<string, string> = {};
+    if (requestIdHeader && !readHeader(headers, requestIdHeader)) {
+      tracing[requestIdHeader] = generateRequestId();
+    }
+    const correlationId = getCorrelationId();
+    if (correlationIdHeader && correlationId && !readHeader(headers, correlationIdHeader)) {
+      tracing[correlationIdHeader] = correlationId;
+    }
+    return Object.keys(tracing).length > 0 ? { ...headers, ...tracing } : headers;
+  }
+
+  /**
+   * Combine the caller's signal and the deadline into one signal
+   * The signal aborts with RequestCancelledError or DeadlineExceededError.
+   */
+  private createCancellation(
+    method: string,
+    path: string,
+    callerSignal: AxiosRequestConfig["signal"],
+    deadline: number | undefined
+  ): { signal: AbortSignal; dispose: () => void } {
+    const controller = new AbortController();
+    const cleanup: Array<() => void> = [];
+
+    if (callerSignal) {
+      const cancel = (): void =>
+        controller.abort(
+          new RequestCancelledError(`Request cancelled: ${method} ${path}`, { method, path })
+        );
+      if (callerSignal.aborted) {
+        cancel();
+      } else if (callerSignal.addEventListener) {
+        callerSignal.addEventListener("abort", cancel);
+        cleanup.push(() => callerSignal.removeEventListener?.("abort", cancel));
+      } else {
+        callerSignal.onabort = cancel;
+        cleanup.push(() => {
+          callerSignal.onabort = null;
+        });
+      }
+    }
+
+    if (deadline && deadline > 0) {
+      const timer = setTimeout(() => {
+        controller.abort(
+          new DeadlineExceededError(
+            `Request deadline of ${deadline}ms exceeded: ${method} ${path}`,
+            deadline,
+            { method, path }
+          )
+        );
+      }, deadline);
+      cleanup.push(() => clearTimeout(timer));
+    }
+
+    return {
+      signal: controller.signal,
+      dispose: () => cleanup.forEach(fn => fn()),
+    };
+  }
+
   /**
    * Execute request with retry logic
+   * Outcomes are recorded against the limiter the request acquired.
    */
   private async executeWithRetry<T>(
     method: string,
     path: string,
-    data?: unknown,
-    config?: AxiosRequestConfig,
-    attempt: number = 0
+    data: unknown,
+    config: AxiosRequestConfig & { signal: AbortSignal },
+    trace: RequestTrace,
+    limiter: RateLimiter
   ): Promise<ApiResponse<T>> {
-    const startTime = Date.now();
+    let attempt = 0;
+    let previousDelay = 0;
+
+    for (;;) {
+      const request: AxiosRequestConfig = { method, url: path, data, ...config };
+      const context = this.middleware.isEmpty()
+        ? null
+        : this.createMiddlewareContext(request, method, path, attempt + 1);
+      if (context) {
+        await this.middleware.runBefore(context);
+      }
 
-    try {
-      const response = await this.client!.request<T>({
-        method,
-        url: path,
-        data,
-        ...config,
-      });
+      const breaker = this.getCircuitBreaker();
+      breaker?.beforeAttempt();
+      const startTime = Date.now();
+
+      let response: AxiosResponse<T>;
+      try {
+        response = await this.dispatch<T>(request);
+      } catch (error) {
+        if (config.signal.aborted) {
+          breaker?.recordInconclusive();
+          throw config.signal.reason;
+        }
+
+        this.recordThrottling(limiter, error);
+        if (breaker && this.recordCircuitOutcome(breaker, error) === "open") {
+          // Retrying now would only fail fast
+          throw await this.runErrorHooks(context, error);
+        }
+
+        const delay = this.shouldRetryRequest(error, attempt)
+          ? this.calculateRetryDelay(attempt, previousDelay, this.getServerRetryDelay(error))
+          : null;
+
+        if (delay === null) {
+          throw await this.runErrorHooks(context, error);
+        }
+
+        logger.debug(`Retrying request after ${delay}ms (attempt ${attempt + 1}/${this.config.retry.retries})`);
+        trace.span.addEvent("retry", {
+          attempt: attempt + 1,
+          "f5xc.retry.delay_ms": delay,
+          "http.response.status_code": this.describeError(error)?.status,
+        });
+
+        await sleep(delay, config.signal);
+        previousDelay = delay;
+        attempt++;
+        trace.retries = attempt;
+        continue;
+      }
 
       const duration = Date.now() - startTime;
+      limiter.recordSuccess();
+      breaker?.recordSuccess();
 
-      return {
+      const apiResponse: ApiResponse<T> = {
         data: response.data,
         status: response.status,
         headers: response.headers as Record<string, string>,
         duration,
+        retries: attempt,
+        requestId: this.readRequestId(response.headers, request.headers),
       };
-    } catch (error) {
-      const shouldRetry = this.shouldRetryRequest(error, attempt);
+      return context ? this.middleware.runAfter(context, apiResponse) : apiResponse;
+    }
+  }
 
-      if (shouldRetry) {
-        const delay = this.calculateRetryDelay(attempt);
-        logger.debug(`Retrying request after ${delay}ms (attempt ${attempt + 1}/${this.config.retry.retries})`);
+  /**
+   * Build the middleware context for an attempt
+   * The request gets its own headers, params and (plain object or array) body,
+   * so hooks can't leak changes into the caller's options or later attempts.
+   * Copies are shallow: nested objects are still shared.
+   */
+  private createMiddlewareContext(
+    request: AxiosRequestConfig,
+    method: string,
+    path: string,
+    attempt: number
+  ): MiddlewareContext {
+    request.headers = { ...request.headers };
+    if (isPlainObject(request.params)) {
+      request.params = { ...request.params };
+    }
+    if (Array.isArray(request.data)) {
+      request.data = [...request.data];
+    } else if (isPlainObject(request.data)) {
+      request.data = { ...request.data };
+    }
+    const pathNamespace = NAMESPACE_PATH_PATTERN.exec(path)?.[1];
+    return {
+      method: method.toUpperCase(),
+      path,
+      request,
+      tenant: this.credentialManager.getTenant(),
+      namespace: pathNamespace
+        ? decodeURIComponent(pathNamespace)
+        : this.credentialManager.getNamespace(),
+      authMode: this.credentialManager.getAuthMode(),
+      attempt,
+    };
+  }
 
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return this.executeWithRetry<T>(method, path, data, config, attempt + 1);
-      }
+  /**
+   * Let middleware observe or replace the final error of a request
+   */
+  private async runErrorHooks(context: MiddlewareContext | null, error: unknown): Promise<unknown> {
+    return context ? this.middleware.runError(context, error) : error;
+  }
 
-      throw error;
-    }
+  /**
+   * Get the server's request ID, falling back to the one sent
+   */
+  private readRequestId(responseHeaders: unknown, requestHeaders: unknown): string | undefined {
+    const header = this.config.requestIdHeader || "X-Request-Id";
+    return readHeader(responseHeaders, header) ?? readHeader(requestHeaders, header);
   }
 
   /**
@@ -593,34 +1471,222 @@ export class HttpClient {
       return false;
     }
 
-    if (axios.isAxiosError(error)) {
-      const status = error.response?.status;
-      if (status && retryOn.includes(status)) {
-        return true;
-      }
+    if (error instanceof NetworkError) {
+      return error.retryable;
+    }
 
-      // Retry on network errors
-      if (!error.response && error.code !== "ECONNABORTED") {
-        return true;
-      }
+    const details = this.describeError(error);
+    if (!details) {
+      return false;
     }
 
-    return false;
+    const { status, code } = details;
+    if (status) {
+      return retryOn.includes(status);
+    }
+
+    // Retry on network errors (but not timeouts)
+    return code !== "ECONNABORTED";
+  }
+
+  /**
+   * Get the delay the server asked for (Retry-After / rate-limit reset)
+   */
+  private getServerRetryDelay(error: unknown): number | null {
+    if (!this.config.retry.respectRetryAfter) {
+      return null;
+    }
+    return this.describeError(error)?.retryAfterMs ?? null;
+  }
+
+  /**
+   * Get the circuit breaker for the current tenant endpoint
+   * @returns Breaker, or null when disabled or no API URL is configured
+   */
+  private getCircuitBreaker(): CircuitBreaker | null {
+    const options = this.config.circuitBreaker;
+    const endpoint = this.credentialManager.getApiUrl();
+    if (!options || !endpoint) {
+      return null;
+    }
+
+    let breaker = this.circuitBreakers.get(endpoint);
+    if (!breaker) {
+      breaker = new CircuitBreaker(endpoint, options === true ? {} : options, event => {
+        this.config.instrumentation.recordMetric({
+          name: METRIC_NAMES.CIRCUIT_STATE,
+          type: "gauge",
+          value: CIRCUIT_STATE_VALUES[event.to],
+          unit: "1",
+          attributes: { "server.address": this.serverAddress(endpoint) },
+        });
+        this.emit("circuitStateChange", event);
+      });
+      this.circuitBreakers.set(endpoint, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Report a failed attempt to the circuit breaker
+   * Network errors, timeouts and 5xx count as failures; other responses show
+   * the endpoint is up.
+   *
+   * @returns Circuit state after recording
+   */
+  private recordCircuitOutcome(breaker: CircuitBreaker, error: unknown): CircuitState {
+    const details = this.describeError(error);
+    if (!details) {
+      breaker.recordInconclusive();
+    } else if (details.status === undefined || details.status >= 500) {
+      breaker.recordFailure();
+    } else {
+      breaker.recordSuccess();
+    }
+    return breaker.getState();
+  }
+
+  /**
+   * Feed 429 / Retry-After responses to the adaptive rate limiter
+   */
+  private recordThrottling(limiter: RateLimiter, error: unknown): void {
+    const details = this.describeError(error);
+    if (details && (details.status === 429 || details.retryAfterMs !== null)) {
+      limiter.recordThrottle(details.retryAfterMs);
+    }
+  }
+
+  /**
+   * Extract status, error code and server retry delay from a request failure
+   * Handles raw axios errors and the F5XCApiError produced by the response interceptor.
+   */
+  private describeError(
+    error: unknown
+  ): { status?: number; code?: string; retryAfterMs: number | null } | null {
+    if (error instanceof F5XCApiError) {
+      const retryAfterMs = error.context?.retryAfterMs;
+      return {
+        status: error.status,
+        code: error.context?.code as string | undefined,
+        retryAfterMs: typeof retryAfterMs === "number" ? retryAfterMs : null,
+      };
+    }
+    if (axios.isAxiosError(error)) {
+      return {
+        status: error.response?.status,
+        code: error.code,
+        retryAfterMs: parseRetryAfter(error.response?.headers),
+      };
+    }
+    return null;
   }
 
   /**
-   * Calculate retry delay based on strategy
+   * Calculate retry delay based on strategy, jitter and server hints
+   *
+   * @param attempt - Zero-based retry attempt
+   * @param previousDelay - Delay used before this attempt (decorrelated jitter)
+   * @param serverDelay - Delay requested by the server, used as a lower bound
+   * @returns Delay in milliseconds, or null if the server delay exceeds maxDelay
    */
-  private calculateRetryDelay(attempt: number): number {
-    const baseDelay = 1000; // 1 second
+  private calculateRetryDelay(
+    attempt: number,
+    previousDelay: number,
+    serverDelay: number | null
+  ): number | null {
     const retryDelay = this.config.retry.retryDelay!;
+    const jitter = this.config.retry.jitter!;
+    const baseDelay = this.config.retry.baseDelay!;
+    const maxDelay = this.config.retry.maxDelay!;
+
+    if (serverDelay !== null && serverDelay > maxDelay) {
+      logger.warn("Server retry delay exceeds maxDelay - not retrying", {
+        serverDelay,
+        maxDelay,
+      });
+      return null;
+    }
 
-    if (retryDelay === "exponential") {
-      // Exponential backoff: 1s, 2s, 4s, 8s, etc.
-      return baseDelay * Math.pow(2, attempt);
+    let delay: number;
+    if (jitter === "decorrelated") {
+      // Random between base and 3x the previous delay
+      const upper = Math.max(baseDelay, previousDelay * 3);
+      delay = baseDelay + Math.random() * (upper - baseDelay);
     } else {
-      // Linear backoff: 1s, 2s, 3s, 4s, etc.
-      return baseDelay * (attempt + 1);
+      // Exponential backoff: 1s, 2s, 4s, 8s, etc. / Linear backoff: 1s, 2s, 3s, 4s, etc.
+      const ceiling =
+        retryDelay === "exponential" ? baseDelay * Math.pow(2, attempt) : baseDelay * (attempt + 1);
+      delay = jitter === "full" ? Math.random() * Math.min(ceiling, maxDelay) : ceiling;
+    }
+
+    delay = Math.min(delay, maxDelay);
+    return Math.round(Math.max(delay, serverDelay ?? 0));
+  }
+
+  /**
+   * Get the current request rate limit in requests per second
+   * Equals the configured rate unless adaptive rate limiting has lowered it.
+   */
+  getEffectiveRate(): number {
+    return this.rateLimiter.getRate();
+  }
+
+  /**
+   * Get rate limiter queue depth and in-flight requests
+   * With rateLimit.shared, the stats cover every client sharing the limiter.
+   */
+  getRateLimitStats(): RateLimiterStats {
+    return this.rateLimiter.getStats();
+  }
+
+  /**
+   * Get the circuit state for the current tenant endpoint
+   * @returns State, or null when the circuit breaker is disabled
+   */
+  getCircuitState(): CircuitState | null {
+    return this.getCircuitBreaker()?.getState() ?? null;
+  }
+
+  /**
+   * Close the circuit for the current tenant endpoint
+   */
+  resetCircuit(): void {
+    this.getCircuitBreaker()?.reset();
+  }
+
+  /**
+   * Add request middleware
+   * Its before hook runs after those already added; its after/error hooks before them.
+   */
+  use(middleware: Middleware): this {
+    this.middleware.use(middleware);
+    return this;
+  }
+
+  /**
+   * Remove all middleware with the given name
+   */
+  removeMiddleware(name: string): this {
+    this.middleware.remove(name);
+    return this;
+  }
+
+  /**
+   * Middleware names in registration order
+   */
+  getMiddleware(): string[] {
+    return this.middleware.names();
+  }
+
+  /**
+   * Release the shared rate limiter (rateLimit.shared)
+   * The limiter is dropped once no client uses it; this client continues
+   * with its own limits.
+   */
+  dispose(): void {
+    if (this.rateLimiter.key !== null) {
+      releaseSharedRateLimiter(this.rateLimiter);
+      this.rateLimiter = new RateLimiter(this.getRateLimiterOptions());
     }
   }
 
@@ -628,7 +1694,11 @@ export class HttpClient {
    * Get the underlying Axios instance
    */
   getAxiosInstance(): AxiosInstance | null {
-    return this.client;
+    try {
+      return this.syncClient();
+    } catch {
+      return null;
+    }
   }
 }
 
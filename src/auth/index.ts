@@ -5,3 +5,12 @@
  */
 export * from "./credential-manager.js";
 export * from "./http-client.js";
+export * from "./rate-limiter.js";
+export * from "./circuit-breaker.js";
+export * from "./instrumentation.js";
+export * from "./middleware.js";
+export * from "./proxy.js";
+export * from "./cassette.js";
+export * from "./credential-process.js";
+export * from "./credential-providers.js";
+export * from "./certificates.js";
@@ -0,0 +1,219 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Tracing and metrics hooks for HttpClient
+ *
+ * HttpClient reports one span per request (covering rate limit queueing,
+ * every attempt and retry backoff) and a small set of metrics through the
+ * Instrumentation interface. The interface is a structural subset of the
+ * OpenTelemetry API, so an OpenTelemetry tracer and meter can be plugged in
+ * with a few lines and no SDK is needed here. Names and attributes follow the
+ * OpenTelemetry HTTP semantic conventions where one exists.
+ *
+ * Metrics:
+ *
+ * | Name | Type | Unit |
+ * |------|------|------|
+ * | `http.client.request.duration` | histogram | s |
+ * | `f5xc.http.client.retries` | counter | {retry} |
+ * | `f5xc.rate_limit.wait.duration` | histogram | s |
+ * | `f5xc.rate_limit.queue_depth` | gauge | {request} |
+ * | `f5xc.circuit.state` | gauge | 0 closed, 1 half-open, 2 open |
+ *
+ * @example OpenTelemetry
+ * ```typescript
+ * const tracer = trace.getTracer("f5xc-auth");
+ * const meter = metrics.getMeter("f5xc-auth");
+ * const histograms = new Map<string, Histogram>();
+ *
+ * const instrumentation: Instrumentation = {
+ *   startSpan: (name, attributes) =>
+ *     tracer.startSpan(name, { kind: SpanKind.CLIENT, attributes }),
+ *   recordMetric: metric => {
+ *     // Create counters / gauges the same way for their types
+ *     if (metric.type === "histogram") {
+ *       let histogram = histograms.get(metric.name);
+ *       if (!histogram) {
+ *         histogram = meter.createHistogram(metric.name, { unit: metric.unit });
+ *         histograms.set(metric.name, histogram);
+ *       }
+ *       histogram.record(metric.value, metric.attributes);
+ *     }
+ *   },
+ * };
+ *
+ * const httpClient = createHttpClient(credentialManager, { instrumentation });
+ * ```
+ *
+ * @module instrumentation
+ * @since 1.5.0
+ * @packageDocumentation
+ */
+
+/**
+ * Span and metric attribute values
+ */
+export type AttributeValue = string | number | boolean;
+
+/**
+ * Span and metric attributes
+ */
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+/**
+ * Span status codes (same values as OpenTelemetry's SpanStatusCode)
+ */
+export enum SpanStatusCode {
+  UNSET = 0,
+  OK = 1,
+  ERROR = 2,
+}
+
+/**
+ * A span in progress
+ */
+export interface Span {
+  setAttribute(key: string, value: AttributeValue): unknown;
+  addEvent(name: string, attributes?: Attributes): unknown;
+  recordException(exception: Error): void;
+  setStatus(status: { code: SpanStatusCode; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * A metric measurement
+ */
+export interface MetricRecord {
+  /** Metric name */
+  name: string;
+  /** Instrument type: histograms record distributions, counters add, gauges replace */
+  type: "histogram" | "counter" | "gauge";
+  /** Measured value */
+  value: number;
+  /** Unit (UCUM, as used by OpenTelemetry) */
+  unit: string;
+  /** Measurement attributes */
+  attributes: Attributes;
+}
+
+/**
+ * Receiver of HttpClient spans and metrics
+ *
+ * Implementations must not throw: they run inside every request.
+ */
+export interface Instrumentation {
+  /** Start a span; HttpClient ends it when the request settles */
+  startSpan(name: string, attributes: Attributes): Span;
+  /** Record a metric measurement */
+  recordMetric(metric: MetricRecord): void;
+}
+
+/**
+ * Metric names emitted by HttpClient
+ */
+export const METRIC_NAMES = {
+  REQUEST_DURATION: "http.client.request.duration",
+  RETRIES: "f5xc.http.client.retries",
+  RATE_LIMIT_WAIT: "f5xc.rate_limit.wait.duration",
+  QUEUE_DEPTH: "f5xc.rate_limit.queue_depth",
+  CIRCUIT_STATE: "f5xc.circuit.state",
+} as const;
+
+const NOOP_SPAN: Span = {
+  setAttribute: () => undefined,
+  addEvent: () => undefined,
+  recordException: () => undefined,
+  setStatus: () => undefined,
+  end: () => undefined,
+};
+
+/**
+ * Instrumentation that discards everything (HttpClient default)
+ */
+export const noopInstrumentation: Instrumentation = {
+  startSpan: () => NOOP_SPAN,
+  recordMetric: () => undefined,
+};
+
+/**
+ * A span captured by InMemoryInstrumentation
+ */
+export interface RecordedSpan {
+  name: string;
+  attributes: Attributes;
+  events: Array<{ name: string; attributes?: Attributes; time: number }>;
+  exceptions: Error[];
+  status: { code: SpanStatusCode; message?: string };
+  startTime: number;
+  /** End time, or null while the span is open */
+  endTime: number | null;
+}
+
+/**
+ * Instrumentation that keeps spans and metrics in memory
+ * Use in tests, or to inspect a client's behavior while debugging.
+ *
+ * @example
+ * ```typescript
+ * const instrumentation = new InMemoryInstrumentation();
+ * const httpClient = createHttpClient(credentialManager, { instrumentation });
+ * await httpClient.get("/web/namespaces");
+ * instrumentation.spans[0].attributes["http.response.status_code"]; // 200
+ * ```
+ */
+export class InMemoryInstrumentation implements Instrumentation {
+  /** Started spans, in start order */
+  readonly spans: RecordedSpan[] = [];
+  /** Metric measurements, in record order */
+  readonly metrics: MetricRecord[] = [];
+
+  startSpan(name: string, attributes: Attributes): Span {
+    const recorded: RecordedSpan = {
+      name,
+      attributes: { ...attributes },
+      events: [],
+      exceptions: [],
+      status: { code: SpanStatusCode.UNSET },
+      startTime: Date.now(),
+      endTime: null,
+    };
+    this.spans.push(recorded);
+
+    return {
+      setAttribute: (key, value) => {
+        recorded.attributes[key] = value;
+      },
+      addEvent: (eventName, eventAttributes) => {
+        recorded.events.push({ name: eventName, attributes: eventAttributes, time: Date.now() });
+      },
+      recordException: exception => {
+        recorded.exceptions.push(exception);
+      },
+      setStatus: status => {
+        recorded.status = status;
+      },
+      end: () => {
+        recorded.endTime ??= Date.now();
+      },
+    };
+  }
+
+  recordMetric(metric: MetricRecord): void {
+    this.metrics.push(metric);
+  }
+
+  /**
+   * Get measurements of one metric
+   */
+  getMetrics(name: string): MetricRecord[] {
+    return this.metrics.filter(metric => metric.name === name);
+  }
+
+  /**
+   * Drop recorded spans and metrics
+   */
+  reset(): void {
+    this.spans.length = 0;
+    this.metrics.length = 0;
+  }
+}
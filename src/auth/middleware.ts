@@ -0,0 +1,150 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Request/response middleware for HttpClient
+ *
+ * Middleware hooks run inside the client's request pipeline: after rate
+ * limiting, once per attempt, so header injection applies to retries too.
+ * They are kept by the HttpClient rather than the Axios instance, so they
+ * survive credential changes that rebuild it.
+ *
+ * - `before` runs in registration order before each attempt. It may change
+ *   `context.request` (headers, params, data).
+ * - `after` runs in reverse order on the successful response. Returning a
+ *   response replaces it, e.g. to redact fields.
+ * - `error` runs in reverse order once, when the request finally fails
+ *   (after retries; not for cancelled requests). Returning an error replaces
+ *   the one thrown.
+ *
+ * @example Audit log
+ * ```typescript
+ * httpClient.use({
+ *   name: "audit",
+ *   after: (context, response) => {
+ *     audit.write({ tenant: context.tenant, method: context.method, path: context.path,
+ *       status: response.status });
+ *   },
+ * });
+ * ```
+ *
+ * @module middleware
+ * @since 1.5.0
+ * @packageDocumentation
+ */
+
+import type { AxiosRequestConfig } from "axios";
+import type { AuthMode } from "./credential-manager.js";
+import type { ApiResponse } from "./http-client.js";
+
+/**
+ * What middleware hooks know about the request
+ */
+export interface MiddlewareContext {
+  /** HTTP method (upper case) */
+  readonly method: string;
+  /** Request path relative to the tenant API URL */
+  readonly path: string;
+  /** Request sent for this attempt; before hooks may modify it */
+  readonly request: AxiosRequestConfig;
+  /** Tenant name, or null if no API URL is configured */
+  readonly tenant: string | null;
+  /** Namespace from the request path, else the default namespace */
+  readonly namespace: string | null;
+  /** Authentication mode of the client */
+  readonly authMode: AuthMode;
+  /** Attempt number, starting at 1 */
+  readonly attempt: number;
+}
+
+/**
+ * A set of request hooks
+ */
+export interface Middleware {
+  /** Name used to remove the middleware and in logs */
+  readonly name: string;
+  /** Called before each attempt */
+  before?(context: MiddlewareContext): void | Promise<void>;
+  /** Called with the successful response; return a response to replace it */
+  after?(
+    context: MiddlewareContext,
+    response: ApiResponse<unknown>
+  ): ApiResponse<unknown> | void | Promise<ApiResponse<unknown> | void>;
+  /** Called when the request fails; return an error to replace it */
+  error?(context: MiddlewareContext, error: unknown): unknown | Promise<unknown>;
+}
+
+/**
+ * Ordered list of middleware
+ */
+export class MiddlewarePipeline {
+  private middleware: Middleware[];
+
+  constructor(middleware: Middleware[] = []) {
+    this.middleware = [...middleware];
+  }
+
+  /**
+   * Append middleware (its before hook runs last, its after/error hooks first)
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Remove all middleware with the given name
+   */
+  remove(name: string): this {
+    this.middleware = this.middleware.filter(middleware => middleware.name !== name);
+    return this;
+  }
+
+  /**
+   * Middleware names in registration order
+   */
+  names(): string[] {
+    return this.middleware.map(middleware => middleware.name);
+  }
+
+  /**
+   * Check whether any middleware is registered
+   */
+  isEmpty(): boolean {
+    return this.middleware.length === 0;
+  }
+
+  /**
+   * Run before hooks in registration order
+   */
+  async runBefore(context: MiddlewareContext): Promise<void> {
+    for (const middleware of this.middleware) {
+      await middleware.before?.(context);
+    }
+  }
+
+  /**
+   * Run after hooks in reverse order
+   *
+   * @returns The response, as replaced by the hooks
+   */
+  async runAfter<T>(context: MiddlewareContext, response: ApiResponse<T>): Promise<ApiResponse<T>> {
+    let result: ApiResponse<unknown> = response;
+    for (const middleware of [...this.middleware].reverse()) {
+      result = (await middleware.after?.(context, result)) ?? result;
+    }
+    return result as ApiResponse<T>;
+  }
+
+  /**
+   * Run error hooks in reverse order
+   *
+   * @returns The error to throw, as replaced by the hooks
+   */
+  async runError(context: MiddlewareContext, error: unknown): Promise<unknown> {
+    let result = error;
+    for (const middleware of [...this.middleware].reverse()) {
+      result = (await middleware.error?.(context, result)) ?? result;
+    }
+    return result;
+  }
+}
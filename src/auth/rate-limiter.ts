@@ -0,0 +1,479 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Request rate limiting
+ *
+ * Each HttpClient limits its own request rate (token bucket) and
+ * concurrency. Clients that talk to the same tenant with the same
+ * credentials can instead share one limiter from a process-wide registry,
+ * so that together they stay within the tenant's budget:
+ *
+ * ```typescript
+ * const a = new HttpClient(cm, { rateLimit: { shared: true } });
+ * const b = new HttpClient(cm, { rateLimit: { shared: true } });
+ * // a and b draw from the same bucket
+ * console.log(getSharedRateLimiterStats());
+ * ```
+ *
+ * @module rate-limiter
+ * @since 1.5.0
+ * @packageDocumentation
+ */
+
+import { createHash } from "crypto";
+import { logger } from "../utils/logging.js";
+import { onAbort, sleep } from "../utils/abort.js";
+
+/**
+ * Adaptive rate limiting (AIMD) options
+ *
+ * A 429 response or a Retry-After header multiplies the rate by
+ * decreaseFactor; each successful response adds increaseStep back, up to the
+ * configured rate.
+ */
+export interface AdaptiveRateLimitOptions {
+  /** Lowest rate in requests per second (default: 10% of the configured rate) */
+  minRate?: number;
+  /** Multiplier applied when throttled (default: 0.5) */
+  decreaseFactor?: number;
+  /** Requests per second added per successful response (default: 1% of the configured rate) */
+  increaseStep?: number;
+}
+
+/**
+ * Token Bucket Rate Limiter
+ * Implements token bucket algorithm for rate limiting requests
+ *
+ * In adaptive mode the refill rate follows AIMD: throttling cuts it
+ * multiplicatively, successes raise it additively up to the configured rate.
+ */
+class TokenBucket {
+  /** Minimum interval between two rate decreases, so one burst of 429s counts once */
+  private static readonly DECREASE_COOLDOWN_MS = 1000;
+
+  private tokens: number;
+  private lastRefill: number;
+  private lastDecrease = 0;
+  private waiting = 0;
+  private readonly capacity: number;
+  private readonly maxRate: number;
+  private refillRate: number; // tokens per second
+  private readonly adaptive: Required<AdaptiveRateLimitOptions> | null;
+
+  constructor(
+    capacity: number,
+    refillRate: number,
+    adaptive: boolean | AdaptiveRateLimitOptions = false
+  ) {
+    this.capacity = capacity;
+    this.maxRate = refillRate;
+    this.refillRate = refillRate;
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+
+    if (adaptive) {
+      const options = adaptive === true ? {} : adaptive;
+      this.adaptive = {
+        minRate: options.minRate ?? refillRate * 0.1,
+        decreaseFactor: options.decreaseFactor ?? 0.5,
+        increaseStep: options.increaseStep ?? refillRate * 0.01,
+      };
+    } else {
+      this.adaptive = null;
+    }
+  }
+
+  /**
+   * Consume tokens and wait if necessary
+   * @param tokens Number of tokens to consume (default: 1)
+   * @param signal Stops waiting (without consuming) when aborted
+   * @returns Promise that resolves when tokens are available
+   */
+  async consume(tokens: number = 1, signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    this.refill();
+
+    if (this.tokens < tokens) {
+      this.waiting++;
+      try {
+        // Loop because the rate may drop (or other waiters may win) while waiting
+        while (this.tokens < tokens) {
+          const waitTime = ((tokens - this.tokens) / this.refillRate) * 1000;
+          await sleep(waitTime, signal);
+          this.refill();
+        }
+      } finally {
+        this.waiting--;
+      }
+    }
+
+    this.tokens -= tokens;
+  }
+
+  /**
+   * Return tokens that were consumed but not used
+   */
+  refund(tokens: number = 1): void {
+    this.refill();
+    this.tokens = Math.min(this.capacity, this.tokens + tokens);
+  }
+
+  /**
+   * Current refill rate in requests per second
+   */
+  getRate(): number {
+    return this.refillRate;
+  }
+
+  /**
+   * Configured (maximum) refill rate in requests per second
+   */
+  getMaxRate(): number {
+    return this.maxRate;
+  }
+
+  /**
+   * Tokens available right now (0 while the bucket is drained)
+   */
+  getAvailableTokens(): number {
+    this.refill();
+    return Math.max(0, Math.floor(this.tokens));
+  }
+
+  /**
+   * Number of callers waiting for tokens
+   */
+  getWaiting(): number {
+    return this.waiting;
+  }
+
+  /**
+   * Record a throttled response (adaptive mode only)
+   * @param retryAfterMs Server-requested delay; the bucket is drained for this long
+   */
+  recordThrottle(retryAfterMs: number | null): void {
+    if (!this.adaptive) {
+      return;
+    }
+
+    this.refill();
+    const now = Date.now();
+    if (now - this.lastDecrease >= TokenBucket.DECREASE_COOLDOWN_MS) {
+      this.refillRate = Math.max(
+        this.adaptive.minRate,
+        this.refillRate * this.adaptive.decreaseFactor
+      );
+      this.lastDecrease = now;
+      logger.info("Rate limit reduced after throttling", {
+        rate: Number(this.refillRate.toFixed(2)),
+      });
+    }
+
+    if (retryAfterMs !== null && retryAfterMs > 0) {
+      // Negative balance holds every request until the server's delay has passed
+      this.tokens = Math.min(this.tokens, -(retryAfterMs / 1000) * this.refillRate);
+    }
+  }
+
+  /**
+   * Record a successful response (adaptive mode only)
+   */
+  recordSuccess(): void {
+    if (!this.adaptive || this.refillRate >= this.maxRate) {
+      return;
+    }
+    this.refill();
+    this.refillRate = Math.min(this.maxRate, this.refillRate + this.adaptive.increaseStep);
+  }
+
+  /**
+   * Refill tokens based on elapsed time
+   */
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    const tokensToAdd = elapsed * this.refillRate;
+
+    this.tokens = Math.min(this.capacity, this.tokens + tokensToAdd);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Concurrent request limiter
+ * Limits the number of concurrent requests
+ */
+class ConcurrentLimiter {
+  private active = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(readonly maxConcurrent: number) {}
+
+  /**
+   * Acquire a slot for request execution
+   * @param signal Leaves the queue when aborted
+   * @returns Promise that resolves when slot is available
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const removeListener = onAbort(signal, () => {
+        this.queue = this.queue.filter(entry => entry !== grant);
+        reject(signal!.reason);
+      });
+      const grant = (): void => {
+        removeListener();
+        resolve();
+      };
+      this.queue.push(grant);
+    });
+  }
+
+  /**
+   * Release a slot after request completion
+   */
+  release(): void {
+    this.active--;
+    const next = this.queue.shift();
+    if (next) {
+      this.active++;
+      next();
+    }
+  }
+
+  /**
+   * Number of requests holding a slot
+   */
+  getActive(): number {
+    return this.active;
+  }
+
+  /**
+   * Number of requests waiting for a slot
+   */
+  getQueued(): number {
+    return this.queue.length;
+  }
+}
+
+/**
+ * Rate limiter configuration
+ */
+export interface RateLimiterOptions {
+  /** Maximum requests per time window */
+  maxRequests: number;
+  /** Time window in milliseconds */
+  perMilliseconds: number;
+  /** Maximum concurrent requests */
+  maxConcurrent: number;
+  /** Adapt the request rate to throttling feedback (default: false) */
+  adaptive?: boolean | AdaptiveRateLimitOptions;
+}
+
+/**
+ * Point-in-time rate limiter state, for reporting backpressure
+ */
+export interface RateLimiterStats {
+  /** Registry key for shared limiters, null for a client's own limiter */
+  key: string | null;
+  /** Current rate in requests per second */
+  rate: number;
+  /** Configured rate in requests per second */
+  maxRate: number;
+  /** Tokens available for immediate requests */
+  availableTokens: number;
+  /** Requests currently in flight */
+  activeRequests: number;
+  /** Maximum concurrent requests */
+  maxConcurrent: number;
+  /** Requests waiting for a rate limit token */
+  waitingForToken: number;
+  /** Requests waiting for a concurrency slot */
+  waitingForSlot: number;
+  /** Total requests queued behind the limiter */
+  queuedRequests: number;
+}
+
+/**
+ * Combined rate and concurrency limiter
+ */
+export class RateLimiter {
+  private readonly bucket: TokenBucket;
+  private readonly concurrency: ConcurrentLimiter;
+
+  /**
+   * @param options - Rate limiter configuration
+   * @param key - Registry key when shared (default: null)
+   */
+  constructor(
+    readonly options: RateLimiterOptions,
+    readonly key: string | null = null
+  ) {
+    const refillRate = options.maxRequests / (options.perMilliseconds / 1000);
+    this.bucket = new TokenBucket(options.maxRequests, refillRate, options.adaptive);
+    this.concurrency = new ConcurrentLimiter(options.maxConcurrent);
+  }
+
+  /**
+   * Wait for a rate limit token and a concurrency slot
+   * Every successful acquire() must be paired with release().
+   *
+   * @param signal - Aborting rejects with signal.reason; an aborted request
+   *   does not keep its rate limit token
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    await this.bucket.consume(1, signal);
+    try {
+      await this.concurrency.acquire(signal);
+    } catch (error) {
+      this.bucket.refund(1);
+      throw error;
+    }
+  }
+
+  /**
+   * Release the concurrency slot taken by acquire()
+   */
+  release(): void {
+    this.concurrency.release();
+  }
+
+  /**
+   * Record a throttled response (adaptive mode only)
+   * @param retryAfterMs Server-requested delay, if any
+   */
+  recordThrottle(retryAfterMs: number | null): void {
+    this.bucket.recordThrottle(retryAfterMs);
+  }
+
+  /**
+   * Record a successful response (adaptive mode only)
+   */
+  recordSuccess(): void {
+    this.bucket.recordSuccess();
+  }
+
+  /**
+   * Current request rate in requests per second
+   */
+  getRate(): number {
+    return this.bucket.getRate();
+  }
+
+  /**
+   * Snapshot of the limiter's rate, in-flight and queued requests
+   */
+  getStats(): RateLimiterStats {
+    const waitingForToken = this.bucket.getWaiting();
+    const waitingForSlot = this.concurrency.getQueued();
+    return {
+      key: this.key,
+      rate: this.bucket.getRate(),
+      maxRate: this.bucket.getMaxRate(),
+      availableTokens: this.bucket.getAvailableTokens(),
+      activeRequests: this.concurrency.getActive(),
+      maxConcurrent: this.concurrency.maxConcurrent,
+      waitingForToken,
+      waitingForSlot,
+      queuedRequests: waitingForToken + waitingForSlot,
+    };
+  }
+}
+
+/**
+ * Shared limiters keyed by tenant and auth identity, with how many clients use each
+ */
+const sharedLimiters = new Map<string, { limiter: RateLimiter; users: number }>();
+
+/**
+ * Build the registry key for a tenant and credential
+ *
+ * The credential is hashed, so keys are safe to log and report.
+ *
+ * @param apiUrl - Tenant API URL
+ * @param identity - API token, P12 bundle or client certificate
+ */
+export function rateLimiterKey(apiUrl: string, identity: string | Buffer): string {
+  const digest = createHash("sha256").update(identity).digest("hex").slice(0, 16);
+  return `${apiUrl.replace(/\/+$/, "")}#${digest}`;
+}
+
+/**
+ * Get the shared limiter for a key, creating it on first use
+ *
+ * The first caller's options define the limiter; later callers with
+ * different options share it as-is. Each call counts as a user until
+ * releaseSharedRateLimiter() is called for it.
+ *
+ * @param key - Registry key (see rateLimiterKey)
+ * @param options - Options used if the limiter does not exist yet
+ */
+export function getSharedRateLimiter(key: string, options: RateLimiterOptions): RateLimiter {
+  const entry = sharedLimiters.get(key);
+  if (entry) {
+    const existing = entry.limiter;
+    entry.users++;
+    if (
+      existing.options.maxRequests !== options.maxRequests ||
+      existing.options.perMilliseconds !== options.perMilliseconds ||
+      existing.options.maxConcurrent !== options.maxConcurrent
+    ) {
+      logger.debug("Shared rate limiter already exists with different limits - keeping them", {
+        key,
+        maxRequests: existing.options.maxRequests,
+        perMilliseconds: existing.options.perMilliseconds,
+        maxConcurrent: existing.options.maxConcurrent,
+      });
+    }
+    return existing;
+  }
+
+  const limiter = new RateLimiter(options, key);
+  sharedLimiters.set(key, { limiter, users: 1 });
+  return limiter;
+}
+
+/**
+ * Stop using a shared limiter
+ * The limiter leaves the registry when its last user releases it, so
+ * rotated credentials do not leave limiters behind.
+ *
+ * @param limiter - Limiter returned by getSharedRateLimiter
+ */
+export function releaseSharedRateLimiter(limiter: RateLimiter): void {
+  const entry = limiter.key ? sharedLimiters.get(limiter.key) : undefined;
+  if (!entry || entry.limiter !== limiter) {
+    return;
+  }
+  entry.users--;
+  if (entry.users <= 0) {
+    sharedLimiters.delete(limiter.key!);
+  }
+}
+
+/**
+ * Stats for every shared limiter
+ */
+export function getSharedRateLimiterStats(): RateLimiterStats[] {
+  return [...sharedLimiters.values()].map(({ limiter }) => limiter.getStats());
+}
+
+/**
+ * Remove shared limiters
+ *
+ * Clients holding a limiter keep using it; new lookups create fresh ones.
+ *
+ * @param key - Remove only this key (default: all)
+ */
+export function clearSharedRateLimiters(key?: string): void {
+  if (key) {
+    sharedLimiters.delete(key);
+  } else {
+    sharedLimiters.clear();
+  }
+}
@@ -64,6 +64,9 @@ export const paths = {
   get settings(): string {
     return join(getConfigDir(), "config.yaml");
   },
+  get secrets(): string {
+    return join(getConfigDir(), "secrets.json");
+  },
 
   // State files (XDG_STATE_HOME)
   get stateDir(): string {
@@ -33,25 +33,163 @@ export {
   normalizeTenantUrl,
   extractTenantFromUrl,
   type Credentials,
+  type CredentialManagerOptions,
+  type CredentialManagerEvents,
+  type CredentialsLoadedEvent,
+  type CredentialExpiryEvent,
+  type CredentialRotationEvent,
+  type CredentialFallbackEvent,
+  type CredentialRefreshFailedEvent,
+  type DocumentationModeEvent,
 } from "./auth/credential-manager.js";
 
+export {
+  CredentialProviderChain,
+  environmentProvider,
+  activeProfileProvider,
+  namedProfileProvider,
+  tokenFileProvider,
+  customProvider,
+  type CredentialProvider,
+  type CredentialProviderResult,
+  type CredentialProviderAttempt,
+  type CredentialResolution,
+  type CredentialSource,
+  type TokenFileProviderOptions,
+  type NamedProfileProviderOptions,
+} from "./auth/credential-providers.js";
+
+export {
+  runCredentialProcess,
+  clearCredentialProcessCache,
+  type CredentialProcessOutput,
+  type CredentialProcessOptions,
+} from "./auth/credential-process.js";
+
+export {
+  openP12Bundle,
+  inspectCertificate,
+  inspectP12Bundle,
+  type CertificateInfo,
+} from "./auth/certificates.js";
+
 export {
   HttpClient,
   createHttpClient,
   type HttpClientConfig,
   type ApiResponse,
+  type RequestOptions,
+  type PaginateOptions,
+  type HttpClientEvents,
 } from "./auth/http-client.js";
 
+export {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitState,
+  type CircuitStateChangeEvent,
+} from "./auth/circuit-breaker.js";
+
+export {
+  MiddlewarePipeline,
+  type Middleware,
+  type MiddlewareContext,
+} from "./auth/middleware.js";
+
+export {
+  ProxyTunnelAgent,
+  resolveProxy,
+  matchesNoProxy,
+  proxyAuthorization,
+  type ProxySettings,
+} from "./auth/proxy.js";
+
+export {
+  Cassette,
+  TENANT_PLACEHOLDER,
+  type CassetteMode,
+  type CassetteMatchField,
+  type CassetteOptions,
+  type CassetteEntry,
+  type CassetteRequest,
+  type CassetteResponse,
+  type CassetteQuery,
+} from "./auth/cassette.js";
+
+export {
+  InMemoryInstrumentation,
+  SpanStatusCode,
+  METRIC_NAMES,
+  noopInstrumentation,
+  type Instrumentation,
+  type Span,
+  type MetricRecord,
+  type RecordedSpan,
+  type Attributes,
+  type AttributeValue,
+} from "./auth/instrumentation.js";
+
+export {
+  RateLimiter,
+  rateLimiterKey,
+  getSharedRateLimiter,
+  getSharedRateLimiterStats,
+  clearSharedRateLimiters,
+  releaseSharedRateLimiter,
+  type RateLimiterOptions,
+  type RateLimiterStats,
+  type AdaptiveRateLimitOptions,
+} from "./auth/rate-limiter.js";
+
 // Profile module
 export {
   ProfileManager,
   getProfileManager,
+  ProfileCipher,
+  isEncryptedValue,
+  ENCRYPTION_ENV_VARS,
+  ProfileWatcher,
+  type ProfileChange,
+  type ProfileWatcherOptions,
+  type ProfileManagerOptions,
+  type ProfileEncryptionOptions,
   type Profile,
   type ProfileConfig,
   type ProfileResult,
   type ProfileValidationError,
 } from "./profile/index.js";
 
+// Secrets module
+export {
+  MemorySecretStore,
+  FileSecretStore,
+  registerSecretStore,
+  unregisterSecretStore,
+  getSecretStore,
+  isSecretReference,
+  parseSecretReference,
+  resolveSecret,
+  resolveSecretReference,
+  SECRET_REFERENCE_PREFIX,
+  type SecretStore,
+  type SecretReference,
+} from "./secrets/index.js";
+
+// Resources module
+export {
+  ResourceClient,
+  createResourceClient,
+  type ConfigObject,
+  type ConfigObjectInput,
+  type ConfigObjectList,
+  type ConfigObjectListItem,
+  type ObjectMetadata,
+  type SystemObjectMetadata,
+  type ResourceRequestOptions,
+  type ResourceListOptions,
+  type ResourceDeleteOptions,
+} from "./resources/index.js";
+
 // Config module
 export { paths, getConfigDir, getStateDir } from "./config/paths.js";
 
@@ -63,11 +201,38 @@ export {
   type LoggerConfig,
 } from "./utils/logging.js";
 
+export {
+  withCorrelationId,
+  getCorrelationId,
+  generateRequestId,
+} from "./utils/correlation.js";
+
+export { parseProxyUrl, sanitizeProxyUrl } from "./utils/url.js";
+
 export {
   F5XCError,
   AuthenticationError,
   F5XCApiError,
+  NotFoundError,
+  ConflictError,
+  AlreadyExistsError,
+  PermissionDeniedError,
+  UnauthenticatedError,
+  RateLimitedError,
+  ValidationFailedError,
+  ServerError,
+  createApiError,
+  type FieldViolation,
+  NetworkError,
+  TimeoutError,
+  createNetworkError,
+  type NetworkErrorReason,
+  type NetworkErrorOptions,
   ConfigurationError,
   SSLCertificateError,
+  RequestCancelledError,
+  DeadlineExceededError,
+  CircuitOpenError,
+  CassetteMismatchError,
   wrapSSLError,
 } from "./utils/errors.js";
@@ -0,0 +1,248 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Encrypted-at-rest storage for profile secrets
+ *
+ * Secret profile fields (API tokens, P12 passwords) are sealed with AES-256-GCM using a key
+ * derived (scrypt) from a passphrase or a key file. Sealed values are stored
+ * in place of the plaintext, so the profile JSON keeps its shape:
+ *
+ * ```json
+ * { "name": "prod", "apiUrl": "...", "apiToken": "f5xc-enc:v1:<salt>:<iv>:<tag>:<data>" }
+ * ```
+ *
+ * @module encryption
+ * @since 1.5.0
+ * @packageDocumentation
+ */
+
+import { promises as fs } from "fs";
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "crypto";
+import type { Profile } from "./types.js";
+import { ConfigurationError } from "../utils/errors.js";
+import { validateFilePath, sanitizePathForLog } from "../utils/path-security.js";
+
+/**
+ * Environment variable names for profile encryption key material
+ */
+export const ENCRYPTION_ENV_VARS = {
+  PASSPHRASE: "F5XC_PROFILE_PASSPHRASE",
+  KEY_FILE: "F5XC_PROFILE_KEY_FILE",
+} as const;
+
+/**
+ * Prefix identifying a sealed profile value
+ */
+export const ENCRYPTED_VALUE_PREFIX = "f5xc-enc:v1:";
+
+/**
+ * Profile fields that are sealed when encryption is enabled
+ */
+export const SECRET_PROFILE_FIELDS = ["apiToken", "p12Password"] as const;
+
+/**
+ * Key material for profile encryption
+ * Exactly one of passphrase or keyFile should be provided.
+ */
+export interface ProfileEncryptionOptions {
+  /** Passphrase used to derive the encryption key */
+  passphrase?: string;
+  /** Path to a file whose contents are used to derive the encryption key */
+  keyFile?: string;
+}
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+/**
+ * Check whether a value is a sealed profile secret
+ */
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(ENCRYPTED_VALUE_PREFIX);
+}
+
+/**
+ * Check whether a profile contains any sealed secret fields
+ */
+export function hasEncryptedFields(profile: Profile): boolean {
+  return SECRET_PROFILE_FIELDS.some(field => isEncryptedValue(profile[field]));
+}
+
+/**
+ * Derive a key with scrypt
+ */
+function deriveKey(secret: Buffer, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(secret, salt, KEY_LENGTH, (error, key) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(key);
+      }
+    });
+  });
+}
+
+/**
+ * ProfileCipher seals and opens secret profile fields
+ *
+ * @example
+ * ```typescript
+ * const cipher = new ProfileCipher({ passphrase: "correct horse battery staple" });
+ * const sealed = await cipher.sealProfile(profile);
+ * const opened = await cipher.openProfile(sealed);
+ * ```
+ */
+export class ProfileCipher {
+  private readonly options: ProfileEncryptionOptions;
+  private secret: Buffer | null = null;
+  private keys = new Map<string, Buffer>();
+
+  constructor(options: ProfileEncryptionOptions) {
+    if (!options.passphrase && !options.keyFile) {
+      throw new ConfigurationError(
+        "Profile encryption requires a passphrase or a key file"
+      );
+    }
+    this.options = options;
+  }
+
+  /**
+   * Create a cipher from F5XC_PROFILE_PASSPHRASE / F5XC_PROFILE_KEY_FILE
+   *
+   * @returns Cipher, or null if no key material is configured
+   */
+  static fromEnvironment(): ProfileCipher | null {
+    const passphrase = process.env[ENCRYPTION_ENV_VARS.PASSPHRASE];
+    const keyFile = process.env[ENCRYPTION_ENV_VARS.KEY_FILE];
+
+    if (!passphrase && !keyFile) {
+      return null;
+    }
+
+    return new ProfileCipher({ passphrase, keyFile });
+  }
+
+  /**
+   * Load the raw secret (passphrase or key file contents)
+   */
+  private async getSecret(): Promise<Buffer> {
+    if (this.secret) {
+      return this.secret;
+    }
+
+    if (this.options.passphrase) {
+      this.secret = Buffer.from(this.options.passphrase, "utf-8");
+    } else {
+      const keyFile = this.options.keyFile!;
+      try {
+        this.secret = await fs.readFile(validateFilePath(keyFile));
+      } catch (error) {
+        throw new ConfigurationError(
+          `Failed to read profile encryption key file: ${sanitizePathForLog(keyFile)}`,
+          { error: error instanceof Error ? error.message : String(error) }
+        );
+      }
+
+      if (this.secret.length === 0) {
+        throw new ConfigurationError(
+          `Profile encryption key file is empty: ${sanitizePathForLog(keyFile)}`
+        );
+      }
+    }
+
+    return this.secret;
+  }
+
+  /**
+   * Get (and cache) the key derived for a given salt
+   */
+  private async getKey(salt: Buffer): Promise<Buffer> {
+    const cacheKey = salt.toString("base64");
+    const cached = this.keys.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const key = await deriveKey(await this.getSecret(), salt);
+    this.keys.set(cacheKey, key);
+    return key;
+  }
+
+  /**
+   * Seal a plaintext value
+   */
+  async encrypt(plaintext: string): Promise<string> {
+    const salt = randomBytes(SALT_LENGTH);
+    const iv = randomBytes(IV_LENGTH);
+    const key = await this.getKey(salt);
+
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return (
+      ENCRYPTED_VALUE_PREFIX +
+      [salt, iv, tag, data].map(part => part.toString("base64")).join(":")
+    );
+  }
+
+  /**
+   * Open a sealed value
+   *
+   * @throws {ConfigurationError} If the value is malformed or the key is wrong
+   */
+  async decrypt(value: string): Promise<string> {
+    if (!isEncryptedValue(value)) {
+      throw new ConfigurationError("Value is not an encrypted profile secret");
+    }
+
+    const parts = value.slice(ENCRYPTED_VALUE_PREFIX.length).split(":");
+    if (parts.length !== 4) {
+      throw new ConfigurationError("Malformed encrypted profile secret");
+    }
+
+    const [salt, iv, tag, data] = parts.map(part => Buffer.from(part, "base64"));
+    const key = await this.getKey(salt);
+
+    try {
+      const decipher = createDecipheriv("aes-256-gcm", key, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(data), decipher.final()]).toString("utf-8");
+    } catch {
+      throw new ConfigurationError(
+        "Failed to decrypt profile secret - the passphrase or key file does not match the one used to encrypt it"
+      );
+    }
+  }
+
+  /**
+   * Return a copy of the profile with secret fields sealed
+   * Fields that are already sealed are left untouched.
+   */
+  async sealProfile(profile: Profile): Promise<Profile> {
+    const sealed: Profile = { ...profile };
+    for (const field of SECRET_PROFILE_FIELDS) {
+      const value = sealed[field];
+      if (value && !isEncryptedValue(value)) {
+        sealed[field] = await this.encrypt(value);
+      }
+    }
+    return sealed;
+  }
+
+  /**
+   * Return a copy of the profile with secret fields decrypted
+   */
+  async openProfile(profile: Profile): Promise<Profile> {
+    const opened: Profile = { ...profile };
+    for (const field of SECRET_PROFILE_FIELDS) {
+      const value = opened[field];
+      if (isEncryptedValue(value)) {
+        opened[field] = await this.decrypt(value);
+      }
+    }
+    return opened;
+  }
+}
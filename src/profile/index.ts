@@ -5,3 +5,5 @@
  */
 export * from "./types.js";
 export * from "./manager.js";
+export * from "./encryption.js";
+export * from "./watcher.js";
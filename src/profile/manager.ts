@@ -12,6 +12,18 @@ import YAML from "yaml";
 import { paths } from "../config/paths.js";
 import type { Profile, ProfileConfig, ProfileResult } from "./types.js";
 import { SimpleCache } from "../utils/cache.js";
+import { ConfigurationError } from "../utils/errors.js";
+import {
+  ProfileCipher,
+  hasEncryptedFields,
+  isEncryptedValue,
+  ENCRYPTION_ENV_VARS,
+  SECRET_PROFILE_FIELDS,
+  type ProfileEncryptionOptions,
+} from "./encryption.js";
+import { isSecretReference } from "../secrets/registry.js";
+import { parseProxyUrl, sanitizeProxyUrl } from "../utils/url.js";
+import { logger } from "../utils/logging.js";
 
 /**
  * Convert snake_case to camelCase
@@ -31,14 +43,27 @@ function convertKeysToCamelCase(obj: Record<string, unknown>): Record<string, un
   return result;
 }
 
+/**
+ * ProfileManager construction options
+ */
+export interface ProfileManagerOptions {
+  /**
+   * Key material for encrypted-at-rest secrets.
+   * Defaults to F5XC_PROFILE_PASSPHRASE / F5XC_PROFILE_KEY_FILE.
+   * When configured, save() seals secret fields before writing.
+   */
+  encryption?: ProfileEncryptionOptions;
+}
+
 /**
  * ProfileManager handles profile CRUD operations with secure file storage
  */
 export class ProfileManager {
   private config: ProfileConfig;
   private cache: SimpleCache<Profile>;
+  private cipher: ProfileCipher | null;
 
-  constructor() {
+  constructor(options: ProfileManagerOptions = {}) {
     this.config = {
       configDir: paths.configDir,
       profilesDir: paths.profilesDir,
@@ -46,6 +71,29 @@ export class ProfileManager {
     };
     // Initialize cache with 5-minute TTL
     this.cache = new SimpleCache<Profile>({ defaultTtl: 300000 });
+    this.cipher = options.encryption
+      ? new ProfileCipher(options.encryption)
+      : ProfileCipher.fromEnvironment();
+  }
+
+  /**
+   * Check if profile secrets are encrypted on save
+   */
+  isEncryptionEnabled(): boolean {
+    return this.cipher !== null;
+  }
+
+  /**
+   * Drop cached profile data so the next read comes from disk
+   *
+   * @param name - Invalidate only this profile (default: all)
+   */
+  invalidate(name?: string): void {
+    if (name) {
+      this.cache.invalidate(name);
+    } else {
+      this.cache.clear();
+    }
   }
 
   /**
@@ -114,7 +162,7 @@ export class ProfileManager {
       // Load profiles (get() handles file extension priority)
       const profiles: Profile[] = [];
       for (const name of profileNames) {
-        const profile = await this.get(name);
+        const profile = await this.viewProfile(name);
         if (profile) {
           profiles.push(profile);
         }
@@ -126,8 +174,42 @@ export class ProfileManager {
     }
   }
 
+  /**
+   * Load a profile for operations that need no secrets (list, setActive)
+   * A profile whose secrets cannot be decrypted is returned locked, without
+   * them, instead of failing.
+   */
+  private async viewProfile(name: string): Promise<Profile | null> {
+    try {
+      return await this.get(name);
+    } catch (error) {
+      if (!(error instanceof ConfigurationError)) {
+        throw error;
+      }
+      const sealed = await this.readProfile(name);
+      if (!sealed) {
+        return null;
+      }
+
+      logger.warn("Profile loaded without its encrypted secrets", {
+        profile: name,
+        error: error.message,
+      });
+      const locked: Profile = { ...sealed, locked: true };
+      for (const field of SECRET_PROFILE_FIELDS) {
+        if (isEncryptedValue(locked[field])) {
+          delete locked[field];
+        }
+      }
+      return locked;
+    }
+  }
+
   /**
    * Get a profile by name
+   * Encrypted secret fields are decrypted transparently.
+   *
+   * @throws {ConfigurationError} If the profile has encrypted secrets that cannot be decrypted
    */
   async get(name: string): Promise<Profile | null> {
     await this.ensureDirectories();
@@ -138,6 +220,21 @@ export class ProfileManager {
       return cached;
     }
 
+    const sealed = await this.readProfile(name);
+    if (!sealed) {
+      return null;
+    }
+
+    const profile = await this.openProfile(sealed);
+    // Cache the profile for future use
+    this.cache.set(name, profile);
+    return profile;
+  }
+
+  /**
+   * Read a profile file as stored (secrets still encrypted)
+   */
+  private async readProfile(name: string): Promise<Profile | null> {
     // Try different file extensions in order of preference
     const extensions = [".json", ".yaml", ".yml"];
 
@@ -145,20 +242,12 @@ export class ProfileManager {
       const path = join(this.config.profilesDir, `${name}${ext}`);
       try {
         const data = await fs.readFile(path, "utf-8");
-        let parsed: Record<string, unknown>;
 
         if (ext === ".json") {
-          parsed = JSON.parse(data);
-        } else {
-          // Parse YAML and convert snake_case to camelCase
-          parsed = YAML.parse(data) as Record<string, unknown>;
-          parsed = convertKeysToCamelCase(parsed);
+          return JSON.parse(data) as Profile;
         }
-
-        const profile = parsed as unknown as Profile;
-        // Cache the profile for future use
-        this.cache.set(name, profile);
-        return profile;
+        // Parse YAML and convert snake_case to camelCase
+        return convertKeysToCamelCase(YAML.parse(data) as Record<string, unknown>) as unknown as Profile;
       } catch {
         // Try next extension
         continue;
@@ -168,12 +257,38 @@ export class ProfileManager {
     return null;
   }
 
+  /**
+   * Decrypt sealed secret fields of a profile read from disk
+   */
+  private async openProfile(profile: Profile): Promise<Profile> {
+    if (!hasEncryptedFields(profile)) {
+      return profile;
+    }
+
+    if (!this.cipher) {
+      throw new ConfigurationError(
+        `Profile '${profile.name}' contains encrypted secrets but no decryption key is configured. ` +
+          `Set ${ENCRYPTION_ENV_VARS.PASSPHRASE} or ${ENCRYPTION_ENV_VARS.KEY_FILE}.`,
+        { profile: profile.name }
+      );
+    }
+
+    return this.cipher.openProfile(profile);
+  }
+
   /**
    * Save a profile (create or update)
    */
   async save(profile: Profile): Promise<ProfileResult> {
     await this.ensureDirectories();
 
+    if (profile.locked) {
+      return {
+        success: false,
+        message: `Profile '${profile.name}' is locked: its encrypted secrets were not loaded.`,
+      };
+    }
+
     if (!this.isValidName(profile.name)) {
       return {
         success: false,
@@ -189,18 +304,31 @@ export class ProfileManager {
       };
     }
 
+    if (profile.proxy) {
+      // Same rules as resolveProxy(), so a proxy that works from the environment can be saved
+      try {
+        parseProxyUrl(profile.proxy);
+      } catch (error) {
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : "Invalid proxy URL.",
+        };
+      }
+    }
+
     // Require at least one form of authentication
-    if (!profile.apiToken && !profile.cert && !profile.p12Bundle) {
+    if (!profile.apiToken && !profile.cert && !profile.p12Bundle && !profile.credentialProcess) {
       return {
         success: false,
         message:
-          "Profile must have at least one authentication method (token, certificate, or P12 bundle).",
+          "Profile must have at least one authentication method (token, certificate, P12 bundle, or credential process).",
       };
     }
 
     try {
       const path = this.getProfilePath(profile.name);
-      const data = JSON.stringify(profile, null, 2);
+      const stored = this.cipher ? await this.cipher.sealProfile(profile) : profile;
+      const data = JSON.stringify(stored, null, 2);
 
       // Write with secure permissions (owner read/write only)
       await fs.writeFile(path, data, { mode: 0o600 });
@@ -227,8 +355,8 @@ export class ProfileManager {
   async delete(name: string): Promise<ProfileResult> {
     await this.ensureDirectories();
 
-    // Check if profile exists
-    const existing = await this.get(name);
+    // Check if profile exists (a locked profile can still be deleted)
+    const existing = await this.readProfile(name);
     if (!existing) {
       return {
         success: false,
@@ -293,8 +421,8 @@ export class ProfileManager {
   async setActive(name: string): Promise<ProfileResult> {
     await this.ensureDirectories();
 
-    // Verify profile exists
-    const profile = await this.get(name);
+    // Verify profile exists (activating needs no secrets)
+    const profile = await this.viewProfile(name);
     if (!profile) {
       return {
         success: false,
@@ -335,7 +463,7 @@ export class ProfileManager {
    * Check if a profile exists
    */
   async exists(name: string): Promise<boolean> {
-    const profile = await this.get(name);
+    const profile = await this.readProfile(name);
     return profile !== null;
   }
 
@@ -352,18 +480,24 @@ export class ProfileManager {
    */
   async rotateCredential(
     name: string,
-    newCredentials: Partial<Pick<Profile, "apiToken" | "p12Bundle" | "cert" | "key">>
+    newCredentials: Partial<Pick<Profile, "apiToken" | "p12Bundle" | "p12Password" | "cert" | "key">>
   ): Promise<ProfileResult> {
     await this.ensureDirectories();
 
-    // Get existing profile
-    const profile = await this.get(name);
+    // Get existing profile (rotation re-saves its secrets, so it must decrypt)
+    const profile = await this.viewProfile(name);
     if (!profile) {
       return {
         success: false,
         message: `Profile '${name}' not found.`,
       };
     }
+    if (profile.locked) {
+      return {
+        success: false,
+        message: `Profile '${name}' is locked: its encrypted secrets cannot be decrypted with the configured key.`,
+      };
+    }
 
     // Update credentials
     const now = new Date().toISOString();
@@ -404,7 +538,10 @@ export class ProfileManager {
       apiUrl: profile.apiUrl,
     };
 
-    if (profile.apiToken) {
+    if (profile.apiToken && isSecretReference(profile.apiToken)) {
+      // References are not secret themselves - show where the token lives
+      masked.apiToken = profile.apiToken;
+    } else if (profile.apiToken) {
       // Show only last 4 characters
       const len = profile.apiToken.length;
       masked.apiToken = len > 4 ? `****${profile.apiToken.slice(-4)}` : "****";
@@ -414,6 +551,10 @@ export class ProfileManager {
       masked.p12Bundle = "[configured]";
     }
 
+    if (profile.p12Password) {
+      masked.p12Password = "[configured]";
+    }
+
     if (profile.cert) {
       masked.cert = "[configured]";
     }
@@ -422,10 +563,23 @@ export class ProfileManager {
       masked.key = "[configured]";
     }
 
+    if (profile.credentialProcess) {
+      masked.credentialProcess = profile.credentialProcess;
+    }
+
     if (profile.defaultNamespace) {
       masked.defaultNamespace = profile.defaultNamespace;
     }
 
+    if (profile.proxy) {
+      // Proxy URLs may carry credentials
+      masked.proxy = sanitizeProxyUrl(profile.proxy);
+    }
+
+    if (profile.noProxy) {
+      masked.noProxy = profile.noProxy;
+    }
+
     return masked;
   }
 }
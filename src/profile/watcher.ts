@@ -0,0 +1,167 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Profile file watcher
+ *
+ * Watches the profiles directory and the active_profile file so that edits
+ * made by other processes (e.g. `f5xc profile use` in another terminal) are
+ * seen immediately instead of after the profile cache TTL.
+ *
+ * Bursts of file system events (editors often write, rename and chmod in
+ * quick succession) are debounced into a single change notification.
+ *
+ * @module watcher
+ * @since 1.5.0
+ * @packageDocumentation
+ */
+
+import { watch, promises as fs, type FSWatcher } from "fs";
+import { basename } from "path";
+import { paths } from "../config/paths.js";
+import { logger } from "../utils/logging.js";
+
+/**
+ * A detected change to profile storage
+ */
+export type ProfileChange =
+  | {
+      /** A profile file was created, modified or deleted */
+      type: "profile";
+      /** Profile name (file name without extension) */
+      name: string;
+    }
+  | {
+      /** The active_profile file was written or removed */
+      type: "active";
+    };
+
+/**
+ * Profile watcher options
+ */
+export interface ProfileWatcherOptions {
+  /** Quiet period before changes are reported, in milliseconds (default: 250) */
+  debounceMs?: number;
+}
+
+const DEFAULT_DEBOUNCE_MS = 250;
+const PROFILE_FILE_PATTERN = /^(.+)\.(json|ya?ml)$/;
+
+/**
+ * Watches profile storage and reports debounced changes
+ *
+ * @example
+ * ```typescript
+ * const watcher = new ProfileWatcher(changes => console.log(changes));
+ * await watcher.start();
+ * // ...
+ * watcher.close();
+ * ```
+ */
+export class ProfileWatcher {
+  private watchers: FSWatcher[] = [];
+  private pending = new Map<string, ProfileChange>();
+  private timer: NodeJS.Timeout | null = null;
+  private readonly debounceMs: number;
+
+  /**
+   * @param onChange - Called with the distinct changes seen during a debounce window
+   * @param options - Watcher options
+   */
+  constructor(
+    private readonly onChange: (changes: ProfileChange[]) => void,
+    options: ProfileWatcherOptions = {}
+  ) {
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  }
+
+  /**
+   * Start watching (creates the profiles directory if needed)
+   */
+  async start(): Promise<void> {
+    if (this.watchers.length > 0) {
+      return;
+    }
+
+    await fs.mkdir(paths.profilesDir, { recursive: true, mode: 0o700 });
+
+    // Watch the config directory rather than active_profile itself: the file
+    // may not exist yet, and atomic replacement breaks per-file watches.
+    const activeProfileFile = basename(paths.activeProfile);
+    this.watchers.push(
+      this.watchDirectory(paths.configDir, file => {
+        if (file === activeProfileFile) {
+          this.queue("active", { type: "active" });
+        }
+      }),
+      this.watchDirectory(paths.profilesDir, file => {
+        const match = PROFILE_FILE_PATTERN.exec(file);
+        if (match) {
+          this.queue(`profile:${match[1]}`, { type: "profile", name: match[1] });
+        }
+      })
+    );
+
+    logger.debug("Watching profile files", { debounceMs: this.debounceMs });
+  }
+
+  /**
+   * Stop watching and drop pending changes
+   */
+  close(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+    this.pending.clear();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check whether the watcher is running
+   */
+  isWatching(): boolean {
+    return this.watchers.length > 0;
+  }
+
+  /**
+   * Watch a directory, forwarding file names of changed entries
+   */
+  private watchDirectory(dir: string, onFile: (file: string) => void): FSWatcher {
+    const watcher = watch(dir, { persistent: false }, (_event, file) => {
+      if (file) {
+        onFile(file.toString());
+      }
+    });
+    watcher.on("error", error => {
+      logger.warn("Profile watcher error", { error: error.message });
+    });
+    return watcher;
+  }
+
+  /**
+   * Record a change and (re)start the debounce timer
+   */
+  private queue(key: string, change: ProfileChange): void {
+    this.pending.set(key, change);
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.flush(), this.debounceMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Report pending changes
+   */
+  private flush(): void {
+    this.timer = null;
+    const changes = [...this.pending.values()];
+    this.pending.clear();
+    if (changes.length > 0) {
+      this.onChange(changes);
+    }
+  }
+}
@@ -0,0 +1,310 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Config object CRUD client
+ *
+ * Builds the `/config/namespaces/{namespace}/{kind}` paths that every F5 XC
+ * config API shares, on top of HttpClient (authentication, rate limiting,
+ * retries). The namespace defaults to the credential manager's default
+ * namespace, and not-found/already-exists errors name the object involved.
+ *
+ * @example
+ * ```typescript
+ * const resources = createResourceClient(credentialManager);
+ *
+ * const lbs = await resources.list("http_loadbalancers");
+ * const lb = await resources.get<HttpLoadBalancerSpec>("http_loadbalancers", "my-lb");
+ * lb.spec.domains.push("www.example.com");
+ * await resources.replace("http_loadbalancers", lb);
+ * ```
+ *
+ * @module resources
+ * @since 1.5.0
+ * @packageDocumentation
+ */
+
+import type { CredentialManager } from "../auth/credential-manager.js";
+import { HttpClient, type RequestOptions } from "../auth/http-client.js";
+import {
+  AlreadyExistsError,
+  ConfigurationError,
+  F5XCApiError,
+  NotFoundError,
+} from "../utils/errors.js";
+import type {
+  ConfigObject,
+  ConfigObjectInput,
+  ConfigObjectList,
+  ConfigObjectListItem,
+  ResourceDeleteOptions,
+  ResourceListOptions,
+  ResourceRequestOptions,
+} from "./types.js";
+
+/**
+ * Path prefix of config APIs, relative to the tenant API URL (which ends in /api)
+ */
+const CONFIG_API_PREFIX = "/config/namespaces";
+
+/**
+ * Object kinds are the plural path segment, e.g. http_loadbalancers
+ */
+const KIND_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * CRUD client for F5 XC config objects of any kind
+ */
+export class ResourceClient {
+  private readonly httpClient: HttpClient;
+
+  /**
+   * @param credentialManager - Supplies the default namespace
+   * @param httpClient - Client used for requests (default: a new HttpClient)
+   */
+  constructor(
+    private readonly credentialManager: CredentialManager,
+    httpClient?: HttpClient
+  ) {
+    this.httpClient = httpClient ?? new HttpClient(credentialManager);
+  }
+
+  /**
+   * List objects of a kind
+   *
+   * @param kind - Object kind (plural path segment, e.g. "http_loadbalancers")
+   * @param options - Namespace, label filter and request options
+   */
+  async list<Spec = Record<string, unknown>>(
+    kind: string,
+    options: ResourceListOptions = {}
+  ): Promise<ConfigObjectListItem<Spec>[]> {
+    const namespace = this.resolveNamespace(options.namespace);
+    const response = await this.call("list", kind, namespace, null, () =>
+      this.httpClient.get<ConfigObjectList<Spec>>(this.collectionPath(kind, namespace), {
+        ...this.requestOptions(options),
+        params: this.listParams(options),
+      })
+    );
+    return response.data.items ?? [];
+  }
+
+  /**
+   * Iterate over objects of a kind, fetching pages on demand
+   * Use instead of list() on namespaces with thousands of objects.
+   *
+   * @param kind - Object kind (plural path segment, e.g. "http_loadbalancers")
+   * @param options - Namespace, label filter, page size and request options
+   */
+  async *iterate<Spec = Record<string, unknown>>(
+    kind: string,
+    options: ResourceListOptions & { pageSize?: number } = {}
+  ): AsyncGenerator<ConfigObjectListItem<Spec>, void, undefined> {
+    const namespace = this.resolveNamespace(options.namespace);
+    const pages = this.httpClient.paginate<ConfigObjectListItem<Spec>>(
+      this.collectionPath(kind, namespace),
+      {
+        ...this.requestOptions(options),
+        params: this.listParams(options),
+        pageSize: options.pageSize,
+      }
+    );
+
+    try {
+      for (;;) {
+        const next = await this.call("list", kind, namespace, null, () => pages.next());
+        if (next.done) {
+          return;
+        }
+        yield next.value;
+      }
+    } finally {
+      // Stop the page iterator when the caller breaks out early
+      await pages.return(undefined);
+    }
+  }
+
+  /**
+   * Get an object
+   *
+   * @throws {NotFoundError} If the object does not exist
+   */
+  async get<Spec = Record<string, unknown>>(
+    kind: string,
+    name: string,
+    options: ResourceRequestOptions = {}
+  ): Promise<ConfigObject<Spec>> {
+    const namespace = this.resolveNamespace(options.namespace);
+    const response = await this.call("get", kind, namespace, name, () =>
+      this.httpClient.get<ConfigObject<Spec>>(
+        this.objectPath(kind, namespace, name),
+        this.requestOptions(options)
+      )
+    );
+    return response.data;
+  }
+
+  /**
+   * Create an object
+   *
+   * The namespace comes from options, then object.metadata.namespace, then
+   * the default namespace.
+   *
+   * @throws {AlreadyExistsError} If an object with the same name exists
+   */
+  async create<Spec = Record<string, unknown>>(
+    kind: string,
+    object: ConfigObjectInput<Spec>,
+    options: ResourceRequestOptions = {}
+  ): Promise<ConfigObject<Spec>> {
+    const namespace = this.resolveNamespace(options.namespace ?? object.metadata.namespace);
+    const response = await this.call("create", kind, namespace, object.metadata.name, () =>
+      this.httpClient.post<ConfigObject<Spec>>(
+        this.collectionPath(kind, namespace),
+        this.withNamespace(object, namespace),
+        this.requestOptions(options)
+      )
+    );
+    return response.data;
+  }
+
+  /**
+   * Replace an object's metadata and spec
+   *
+   * @throws {NotFoundError} If the object does not exist
+   */
+  async replace<Spec = Record<string, unknown>>(
+    kind: string,
+    object: ConfigObjectInput<Spec>,
+    options: ResourceRequestOptions = {}
+  ): Promise<ConfigObject<Spec>> {
+    const namespace = this.resolveNamespace(options.namespace ?? object.metadata.namespace);
+    const name = object.metadata.name;
+    const response = await this.call("replace", kind, namespace, name, () =>
+      this.httpClient.put<ConfigObject<Spec>>(
+        this.objectPath(kind, namespace, name),
+        this.withNamespace(object, namespace),
+        this.requestOptions(options)
+      )
+    );
+    return response.data;
+  }
+
+  /**
+   * Delete an object
+   *
+   * @throws {NotFoundError} If the object does not exist
+   */
+  async delete(kind: string, name: string, options: ResourceDeleteOptions = {}): Promise<void> {
+    const namespace = this.resolveNamespace(options.namespace);
+    await this.call("delete", kind, namespace, name, () =>
+      this.httpClient.delete(this.objectPath(kind, namespace, name), {
+        ...this.requestOptions(options),
+        data: { name, namespace, fail_if_referred: options.failIfReferred ?? false },
+      })
+    );
+  }
+
+  /**
+   * Pick the namespace for a request
+   *
+   * @throws {ConfigurationError} If no namespace is given or configured
+   */
+  private resolveNamespace(namespace: string | undefined): string {
+    const resolved = namespace ?? this.credentialManager.getNamespace();
+    if (!resolved) {
+      throw new ConfigurationError(
+        "No namespace given and no default namespace configured. " +
+          "Pass a namespace, set F5XC_NAMESPACE, or set defaultNamespace in the profile."
+      );
+    }
+    return resolved;
+  }
+
+  private collectionPath(kind: string, namespace: string): string {
+    if (!KIND_PATTERN.test(kind)) {
+      throw new ConfigurationError(
+        `Invalid object kind '${kind}' - use the plural API path segment, e.g. 'http_loadbalancers'`
+      );
+    }
+    return `${CONFIG_API_PREFIX}/${encodeURIComponent(namespace)}/${kind}`;
+  }
+
+  private objectPath(kind: string, namespace: string, name: string): string {
+    return `${this.collectionPath(kind, namespace)}/${encodeURIComponent(name)}`;
+  }
+
+  private listParams(options: ResourceListOptions): Record<string, string> {
+    const params: Record<string, string> = {};
+    if (options.labelFilter) {
+      params.label_filter = options.labelFilter;
+    }
+    if (options.reportFields) {
+      params.report_fields = "true";
+    }
+    return params;
+  }
+
+  private requestOptions(options: ResourceRequestOptions): RequestOptions {
+    return { signal: options.signal, deadline: options.deadline };
+  }
+
+  private withNamespace<Spec>(
+    object: ConfigObjectInput<Spec>,
+    namespace: string
+  ): ConfigObjectInput<Spec> {
+    return { ...object, metadata: { ...object.metadata, namespace } };
+  }
+
+  /**
+   * Run a request, restating not-found and already-exists errors in terms of the object
+   */
+  private async call<T>(
+    operation: "list" | "get" | "create" | "replace" | "delete",
+    kind: string,
+    namespace: string,
+    name: string | null,
+    send: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await send();
+    } catch (error) {
+      if (!(error instanceof F5XCApiError)) {
+        throw error;
+      }
+
+      const context = { ...error.context, kind, namespace, name };
+      const target = name ? `${kind} '${name}'` : kind;
+      if (error.status === 404) {
+        throw new NotFoundError(
+          `${target} not found in namespace '${namespace}'`,
+          error.status,
+          error.response,
+          context
+        );
+      }
+      // Any conflict on create means the name is taken
+      if (
+        error instanceof AlreadyExistsError ||
+        (error.status === 409 && operation === "create")
+      ) {
+        throw new AlreadyExistsError(
+          `${target} already exists in namespace '${namespace}'`,
+          error.status,
+          error.response,
+          context
+        );
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Create a resource client from a credential manager
+ */
+export function createResourceClient(
+  credentialManager: CredentialManager,
+  httpClient?: HttpClient
+): ResourceClient {
+  return new ResourceClient(credentialManager, httpClient);
+}
@@ -0,0 +1,7 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Resources module exports
+ */
+export * from "./types.js";
+export * from "./client.js";
@@ -0,0 +1,126 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Config object types
+ *
+ * F5 XC config objects (load balancers, origin pools, app firewalls, ...)
+ * share one envelope: user-set `metadata`, a kind-specific `spec`, and
+ * server-maintained `system_metadata`. Field names follow the API's
+ * snake_case JSON.
+ */
+
+/**
+ * User-set object metadata
+ */
+export interface ObjectMetadata {
+  /** Object name (unique per namespace and kind) */
+  name: string;
+  /** Namespace (filled in from the request when omitted) */
+  namespace?: string;
+  /** Labels used for selection */
+  labels?: Record<string, string>;
+  /** Free-form annotations */
+  annotations?: Record<string, string>;
+  /** Human-readable description */
+  description?: string;
+  /** Administratively disable the object */
+  disable?: boolean;
+}
+
+/**
+ * Server-maintained object metadata
+ */
+export interface SystemObjectMetadata {
+  /** Unique object ID */
+  uid?: string;
+  /** Tenant that owns the object */
+  tenant?: string;
+  /** Creation time (ISO 8601) */
+  creation_timestamp?: string;
+  /** Last modification time (ISO 8601) */
+  modification_timestamp?: string;
+  /** Creator identity */
+  creator_id?: string;
+  /** Creator type (e.g. user, service) */
+  creator_class?: string;
+  /** Other server fields */
+  [field: string]: unknown;
+}
+
+/**
+ * Config object envelope returned by get()
+ *
+ * @typeParam Spec - Kind-specific specification
+ */
+export interface ConfigObject<Spec = Record<string, unknown>> {
+  metadata: ObjectMetadata;
+  spec: Spec;
+  system_metadata?: SystemObjectMetadata;
+}
+
+/**
+ * Object body sent to create() and replace()
+ */
+export interface ConfigObjectInput<Spec = Record<string, unknown>> {
+  metadata: ObjectMetadata;
+  spec: Spec;
+}
+
+/**
+ * Entry in a list response
+ */
+export interface ConfigObjectListItem<Spec = Record<string, unknown>> {
+  name: string;
+  namespace: string;
+  tenant?: string;
+  uid?: string;
+  description?: string;
+  disabled?: boolean;
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+  /** Full metadata (with reportFields) */
+  metadata?: ObjectMetadata;
+  /** Server metadata (with reportFields) */
+  system_metadata?: SystemObjectMetadata;
+  /** Object spec (with reportFields) */
+  get_spec?: Spec;
+}
+
+/**
+ * List response envelope
+ */
+export interface ConfigObjectList<Spec = Record<string, unknown>> {
+  items: ConfigObjectListItem<Spec>[];
+  /** Per-item errors reported by the server */
+  errors?: unknown[];
+}
+
+/**
+ * Options common to every resource operation
+ */
+export interface ResourceRequestOptions {
+  /** Namespace (default: the credential manager's default namespace) */
+  namespace?: string;
+  /** Cancels the request, including queueing and retries */
+  signal?: AbortSignal;
+  /** Overall deadline in milliseconds */
+  deadline?: number;
+}
+
+/**
+ * List options
+ */
+export interface ResourceListOptions extends ResourceRequestOptions {
+  /** Label selector expression (e.g. "app=web") */
+  labelFilter?: string;
+  /** Include metadata, system_metadata and get_spec in each item (default: false) */
+  reportFields?: boolean;
+}
+
+/**
+ * Delete options
+ */
+export interface ResourceDeleteOptions extends ResourceRequestOptions {
+  /** Refuse to delete objects that other objects refer to (default: false) */
+  failIfReferred?: boolean;
+}
@@ -0,0 +1,129 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * File-based secret store
+ *
+ * Stores all secrets in a single JSON file (default:
+ * ~/.config/f5xc/secrets.json) written with owner-only permissions,
+ * so tokens live in one place instead of being copied into every profile.
+ * When profile encryption is configured (F5XC_PROFILE_PASSPHRASE or
+ * F5XC_PROFILE_KEY_FILE), values are encrypted with the same cipher as
+ * profile secrets; otherwise they are stored as plaintext.
+ */
+
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import { paths } from "../config/paths.js";
+import { ConfigurationError } from "../utils/errors.js";
+import { ENCRYPTION_ENV_VARS, ProfileCipher, isEncryptedValue } from "../profile/encryption.js";
+import type { SecretStore } from "./types.js";
+
+/**
+ * FileSecretStore keeps secrets in a JSON object keyed by name
+ *
+ * @example
+ * ```typescript
+ * const store = new FileSecretStore();
+ * await store.set("prod-token", "abc123");
+ * // Profile: { apiToken: "secret://file/prod-token" }
+ * ```
+ */
+export class FileSecretStore implements SecretStore {
+  private readonly filePath: string;
+  private readonly cipher: ProfileCipher | null;
+
+  /**
+   * @param filePath - Secrets file (default: ~/.config/f5xc/secrets.json)
+   * @param cipher - Cipher for stored values (default: profile encryption from the environment)
+   */
+  constructor(
+    filePath: string = paths.secrets,
+    cipher: ProfileCipher | null = ProfileCipher.fromEnvironment()
+  ) {
+    this.filePath = filePath;
+    this.cipher = cipher;
+  }
+
+  /**
+   * Read all secrets from disk
+   */
+  private async readAll(): Promise<Record<string, string>> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.filePath, "utf-8");
+    } catch (error) {
+      // Missing file means no secrets yet; anything else must not look like an empty store
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw new ConfigurationError(`Cannot read secrets file: ${this.filePath}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    try {
+      const parsed = JSON.parse(data) as unknown;
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new Error("expected a JSON object");
+      }
+      return parsed as Record<string, string>;
+    } catch (error) {
+      throw new ConfigurationError(`Secrets file is not valid JSON: ${this.filePath}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Write all secrets to disk with secure permissions
+   */
+  private async writeAll(secrets: Record<string, string>): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true, mode: 0o700 });
+    await fs.writeFile(this.filePath, JSON.stringify(secrets, null, 2), { mode: 0o600 });
+  }
+
+  async get(name: string): Promise<string | null> {
+    const secrets = await this.readAll();
+    // Own keys only: names like "constructor" must not resolve to Object.prototype members
+    if (!Object.hasOwn(secrets, name)) {
+      return null;
+    }
+    const value: unknown = secrets[name];
+    if (typeof value !== "string") {
+      throw new ConfigurationError(`Secret '${name}' in ${this.filePath} is not a string`, {
+        secret: name,
+      });
+    }
+    if (!isEncryptedValue(value)) {
+      return value;
+    }
+    if (!this.cipher) {
+      throw new ConfigurationError(
+        `Secret '${name}' is encrypted but no decryption key is configured. ` +
+          `Set ${ENCRYPTION_ENV_VARS.PASSPHRASE} or ${ENCRYPTION_ENV_VARS.KEY_FILE}.`,
+        { secret: name }
+      );
+    }
+    return this.cipher.decrypt(value);
+  }
+
+  async set(name: string, value: string): Promise<void> {
+    const secrets = await this.readAll();
+    secrets[name] = this.cipher ? await this.cipher.encrypt(value) : value;
+    await this.writeAll(secrets);
+  }
+
+  async delete(name: string): Promise<boolean> {
+    const secrets = await this.readAll();
+    if (!Object.hasOwn(secrets, name)) {
+      return false;
+    }
+    delete secrets[name];
+    await this.writeAll(secrets);
+    return true;
+  }
+
+  async list(): Promise<string[]> {
+    return Object.keys(await this.readAll()).sort();
+  }
+}
@@ -0,0 +1,9 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Secrets module exports
+ */
+export * from "./types.js";
+export * from "./registry.js";
+export * from "./file-store.js";
+export * from "./memory-store.js";
@@ -0,0 +1,46 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * In-memory secret store
+ *
+ * Holds secrets for the lifetime of the process. Intended for tests and
+ * for consumers that inject secrets programmatically at startup.
+ */
+
+import type { SecretStore } from "./types.js";
+
+/**
+ * MemorySecretStore keeps secrets in a Map
+ *
+ * @example
+ * ```typescript
+ * const store = new MemorySecretStore({ "prod-token": "abc123" });
+ * registerSecretStore("memory", store);
+ * // Profile: { apiToken: "secret://memory/prod-token" }
+ * ```
+ */
+export class MemorySecretStore implements SecretStore {
+  private secrets = new Map<string, string>();
+
+  constructor(initial: Record<string, string> = {}) {
+    for (const [name, value] of Object.entries(initial)) {
+      this.secrets.set(name, value);
+    }
+  }
+
+  async get(name: string): Promise<string | null> {
+    return this.secrets.get(name) ?? null;
+  }
+
+  async set(name: string, value: string): Promise<void> {
+    this.secrets.set(name, value);
+  }
+
+  async delete(name: string): Promise<boolean> {
+    return this.secrets.delete(name);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.secrets.keys()).sort();
+  }
+}
@@ -0,0 +1,135 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Secret store registry and reference resolution
+ *
+ * A "file" store backed by ~/.config/f5xc/secrets.json is registered by
+ * default. Additional backends (vaults, in-memory stores for tests) are
+ * registered by name and addressed as secret://<store>/<name>.
+ */
+
+import { ConfigurationError } from "../utils/errors.js";
+import { FileSecretStore } from "./file-store.js";
+import type { SecretReference, SecretStore } from "./types.js";
+
+/**
+ * URI scheme for secret references
+ */
+export const SECRET_REFERENCE_PREFIX = "secret://";
+
+/**
+ * Registered stores by name
+ */
+const stores = new Map<string, SecretStore>();
+
+/**
+ * Default store factories, created on first use
+ */
+const defaultStores: Record<string, () => SecretStore> = {
+  file: () => new FileSecretStore(),
+};
+
+/**
+ * Check whether a value is a secret reference
+ */
+export function isSecretReference(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(SECRET_REFERENCE_PREFIX);
+}
+
+/**
+ * Parse a secret reference
+ *
+ * @param value - Reference in the form secret://store/name
+ * @returns Parsed reference, or null if the value is not a valid reference
+ */
+export function parseSecretReference(value: string): SecretReference | null {
+  if (!isSecretReference(value)) {
+    return null;
+  }
+
+  const match = value.slice(SECRET_REFERENCE_PREFIX.length).match(/^([^/]+)\/(.+)$/);
+  if (!match) {
+    return null;
+  }
+
+  return { store: match[1], name: match[2] };
+}
+
+/**
+ * Register a secret store under a name, replacing any existing store
+ */
+export function registerSecretStore(name: string, store: SecretStore): void {
+  stores.set(name, store);
+}
+
+/**
+ * Remove a registered secret store
+ */
+export function unregisterSecretStore(name: string): boolean {
+  return stores.delete(name);
+}
+
+/**
+ * Get a registered secret store by name
+ */
+export function getSecretStore(name: string): SecretStore | null {
+  const registered = stores.get(name);
+  if (registered) {
+    return registered;
+  }
+
+  const factory = defaultStores[name];
+  if (factory) {
+    const store = factory();
+    stores.set(name, store);
+    return store;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a secret reference to its value
+ *
+ * @throws {ConfigurationError} If the reference is malformed, the store is not
+ *   registered, or the secret does not exist
+ */
+export async function resolveSecretReference(reference: string): Promise<string> {
+  const parsed = parseSecretReference(reference);
+  if (!parsed) {
+    throw new ConfigurationError(
+      `Invalid secret reference "${reference}". Expected ${SECRET_REFERENCE_PREFIX}<store>/<name>.`
+    );
+  }
+
+  const store = getSecretStore(parsed.store);
+  if (!store) {
+    throw new ConfigurationError(
+      `Secret store "${parsed.store}" is not registered. Register it with registerSecretStore().`,
+      { reference }
+    );
+  }
+
+  const value = await store.get(parsed.name);
+  if (value === null) {
+    throw new ConfigurationError(
+      `Secret "${parsed.name}" not found in store "${parsed.store}"`,
+      { reference }
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Resolve a value that may be a secret reference
+ * Plain values are returned unchanged.
+ */
+export async function resolveSecret(value: string): Promise<string>;
+export async function resolveSecret(value: string | undefined): Promise<string | undefined>;
+export async function resolveSecret(value: string | undefined): Promise<string | undefined> {
+  if (!isSecretReference(value)) {
+    return value;
+  }
+  return resolveSecretReference(value);
+}
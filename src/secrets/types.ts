@@ -0,0 +1,33 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Secret store types
+ *
+ * Profiles can reference a secret instead of embedding it:
+ * `apiToken: "secret://<store>/<name>"`. References are resolved through
+ * a registered SecretStore backend when credentials are loaded.
+ */
+
+/**
+ * Backend that stores named secrets
+ */
+export interface SecretStore {
+  /** Get a secret value, or null if it does not exist */
+  get(name: string): Promise<string | null>;
+  /** Create or replace a secret */
+  set(name: string, value: string): Promise<void>;
+  /** Delete a secret, returning true if it existed */
+  delete(name: string): Promise<boolean>;
+  /** List secret names */
+  list(): Promise<string[]>;
+}
+
+/**
+ * Parsed secret reference (secret://store/name)
+ */
+export interface SecretReference {
+  /** Registered store name */
+  store: string;
+  /** Secret name within the store */
+  name: string;
+}
@@ -0,0 +1,49 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Cancellation helpers
+ *
+ * Waits that reject with the signal's reason when it aborts, so rate limiter
+ * queues and retry backoff stop as soon as a request is cancelled.
+ *
+ * @module abort
+ * @since 1.5.0
+ * @packageDocumentation
+ */
+
+/**
+ * Run a listener once when the signal aborts
+ *
+ * @returns Function that removes the listener
+ */
+export function onAbort(signal: AbortSignal | undefined, listener: () => void): () => void {
+  if (!signal) {
+    return () => {};
+  }
+  signal.addEventListener("abort", listener, { once: true });
+  return () => signal.removeEventListener("abort", listener);
+}
+
+/**
+ * Wait for a number of milliseconds
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Rejects with signal.reason when aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const removeListener = onAbort(signal, () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    });
+    const timer = setTimeout(() => {
+      removeListener();
+      resolve();
+    }, ms);
+  });
+}
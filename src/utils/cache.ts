@@ -3,8 +3,8 @@
 /**
  * Simple TTL (Time To Live) Cache
  *
- * Provides in-memory caching with expiration and optional file watching
- * to reduce repeated file system operations.
+ * Provides in-memory caching with expiration to reduce repeated file system
+ * operations. File watching lives in ProfileWatcher, which invalidates entries.
  *
  * @module cache
  * @since 1.2.0
@@ -0,0 +1,51 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Correlation IDs
+ *
+ * A correlation ID ties together everything done for one unit of work (e.g.
+ * one MCP tool invocation): log lines, API requests (sent as a header) and
+ * the errors they produce. It follows async calls through AsyncLocalStorage,
+ * so it does not have to be passed down explicitly.
+ *
+ * @example
+ * ```typescript
+ * await withCorrelationId(toolCallId, async () => {
+ *   await httpClient.get("/web/namespaces"); // sends X-Correlation-Id, logs carry it
+ * });
+ * ```
+ *
+ * @module correlation
+ * @since 1.5.0
+ * @packageDocumentation
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+
+const storage = new AsyncLocalStorage<{ correlationId: string }>();
+
+/**
+ * Run a function with a correlation ID
+ * Nested calls replace the ID for their own scope.
+ *
+ * @param correlationId - ID to attach to logs, requests and errors
+ * @param fn - Function to run; async work it starts keeps the ID
+ */
+export function withCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return storage.run({ correlationId }, fn);
+}
+
+/**
+ * Get the correlation ID of the current async context
+ */
+export function getCorrelationId(): string | undefined {
+  return storage.getStore()?.correlationId;
+}
+
+/**
+ * Generate a unique request ID
+ */
+export function generateRequestId(): string {
+  return randomUUID();
+}
@@ -7,6 +7,7 @@
  */
 
 import { sanitizeUrlForLog } from "./path-security.js";
+import { getCorrelationId } from "./correlation.js";
 
 /**
  * Base error class for F5XC errors
@@ -52,25 +53,81 @@ export class AuthenticationError extends F5XCError {
   }
 }
 
+/**
+ * Fields of an F5 XC error payload: `{ "code": 5, "message": "...", "details": [...] }`
+ */
+interface ApiErrorBody {
+  message?: string;
+  code?: string | number;
+  details?: unknown[];
+}
+
+/**
+ * Read message, code and details from an error response body
+ */
+function parseApiErrorBody(response: unknown): ApiErrorBody {
+  if (typeof response === "string") {
+    return response.trim() ? { message: response.trim() } : {};
+  }
+  if (!response || typeof response !== "object") {
+    return {};
+  }
+
+  const body = response as Record<string, unknown>;
+  const nested =
+    body.error && typeof body.error === "object" ? (body.error as Record<string, unknown>) : null;
+  const message = [body.message, body.error_message, nested?.message, body.error].find(
+    value => typeof value === "string" && value.length > 0
+  ) as string | undefined;
+  const code = body.code ?? nested?.code;
+  const details = body.details ?? nested?.details;
+
+  return {
+    message,
+    code: typeof code === "string" || typeof code === "number" ? code : undefined,
+    details: Array.isArray(details) ? details : undefined,
+  };
+}
+
 /**
  * API request/response errors
+ *
+ * The F5 XC error payload's code and details are parsed from the response.
+ * Subclasses identify the kind of failure and carry a remediation hint.
  */
 export class F5XCApiError extends F5XCError {
   /** HTTP status code */
   readonly status?: number;
   /** Raw API response */
   readonly response?: unknown;
+  /** Error code from the F5 XC error payload (usually a gRPC status code) */
+  readonly apiCode?: string | number;
+  /** Error details from the F5 XC error payload */
+  readonly details?: unknown[];
+  /** What the caller can do about the error */
+  readonly hint?: string;
+  /** Request ID returned by the server (or sent, if none was returned) - quote it to F5 support */
+  readonly requestId?: string;
+  /** Correlation ID active when the error occurred */
+  readonly correlationId?: string;
 
   constructor(
     message: string,
     status?: number,
     response?: unknown,
-    context?: Record<string, unknown>
+    context?: Record<string, unknown>,
+    hint?: string
   ) {
     super(message, "API_ERROR", context);
     this.name = "F5XCApiError";
     this.status = status;
     this.response = response;
+    const body = parseApiErrorBody(response);
+    this.apiCode = body.code;
+    this.details = body.details;
+    this.hint = hint;
+    this.requestId = typeof context?.requestId === "string" ? context.requestId : undefined;
+    this.correlationId = getCorrelationId();
   }
 
   toJSON(): Record<string, unknown> {
@@ -78,10 +135,515 @@ export class F5XCApiError extends F5XCError {
       ...super.toJSON(),
       status: this.status,
       response: this.response,
+      apiCode: this.apiCode,
+      details: this.details,
+      hint: this.hint,
+      requestId: this.requestId,
+      correlationId: this.correlationId,
     };
   }
 }
 
+/**
+ * Requested object does not exist (HTTP 404)
+ */
+export class NotFoundError extends F5XCApiError {
+  constructor(
+    message: string,
+    status: number = 404,
+    response?: unknown,
+    context?: Record<string, unknown>
+  ) {
+    super(
+      message,
+      status,
+      response,
+      context,
+      "Check the object name, kind and namespace. List the namespace to see which objects exist."
+    );
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Request conflicts with the object's current state (HTTP 409)
+ */
+export class ConflictError extends F5XCApiError {
+  constructor(
+    message: string,
+    status: number = 409,
+    response?: unknown,
+    context?: Record<string, unknown>,
+    hint: string = "The object was changed by another request. Fetch the current version and retry."
+  ) {
+    super(message, status, response, context, hint);
+    this.name = "ConflictError";
+  }
+}
+
+/**
+ * Object to be created already exists (HTTP 409)
+ */
+export class AlreadyExistsError extends ConflictError {
+  constructor(
+    message: string,
+    status: number = 409,
+    response?: unknown,
+    context?: Record<string, unknown>
+  ) {
+    super(
+      message,
+      status,
+      response,
+      context,
+      "An object with this name already exists in the namespace. Replace it instead, or choose another name."
+    );
+    this.name = "AlreadyExistsError";
+  }
+}
+
+/**
+ * Credentials are valid but lack permission (HTTP 403)
+ */
+export class PermissionDeniedError extends F5XCApiError {
+  constructor(
+    message: string,
+    status: number = 403,
+    response?: unknown,
+    context?: Record<string, unknown>
+  ) {
+    super(
+      message,
+      status,
+      response,
+      context,
+      "The credentials do not grant this operation in this namespace. " +
+        "Ask a tenant administrator for a role that allows it, or use a namespace you have access to."
+    );
+    this.name = "PermissionDeniedError";
+  }
+}
+
+/**
+ * Credentials were rejected (HTTP 401)
+ */
+export class UnauthenticatedError extends F5XCApiError {
+  constructor(
+    message: string,
+    status: number = 401,
+    response?: unknown,
+    context?: Record<string, unknown>
+  ) {
+    super(
+      message,
+      status,
+      response,
+      context,
+      "The API token or certificate was rejected - it may be expired or revoked. " +
+        "Create new credentials in the F5 XC console and update the profile or F5XC_API_TOKEN."
+    );
+    this.name = "UnauthenticatedError";
+  }
+}
+
+/**
+ * Tenant rate limit reached (HTTP 429)
+ */
+export class RateLimitedError extends F5XCApiError {
+  /** Server-requested delay before retrying, if any */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    status: number = 429,
+    response?: unknown,
+    context?: Record<string, unknown>
+  ) {
+    const retryAfterMs =
+      typeof context?.retryAfterMs === "number" ? context.retryAfterMs : undefined;
+    super(
+      message,
+      status,
+      response,
+      context,
+      (retryAfterMs !== undefined
+        ? `Retry after ${Math.ceil(retryAfterMs / 1000)}s. `
+        : "Retry later. ") +
+        "Lower rateLimit.maxRequests or enable rateLimit.adaptive to stay under the tenant's limit."
+    );
+    this.name = "RateLimitedError";
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      retryAfterMs: this.retryAfterMs,
+    };
+  }
+}
+
+/**
+ * A field that failed validation
+ */
+export interface FieldViolation {
+  /** Field path, e.g. "spec.domains[0]" */
+  field: string;
+  /** Why the value was rejected */
+  description?: string;
+}
+
+/**
+ * Collect field violations from error details and the message
+ */
+function findFieldViolations(message: string, details: unknown[] | undefined): FieldViolation[] {
+  const violations: FieldViolation[] = [];
+  for (const detail of details ?? []) {
+    if (!detail || typeof detail !== "object") {
+      continue;
+    }
+    const entry = detail as Record<string, unknown>;
+    const list = entry.field_violations ?? entry.fieldViolations;
+    for (const violation of Array.isArray(list) ? list : []) {
+      if (violation && typeof violation.field === "string") {
+        violations.push({
+          field: violation.field,
+          description: typeof violation.description === "string" ? violation.description : undefined,
+        });
+      }
+    }
+  }
+
+  // Messages like "spec.domains: value must contain at least 1 item(s)"
+  for (const match of message.matchAll(/\b((?:metadata|spec)(?:\.[A-Za-z_]\w*|\[\d+\])+)/g)) {
+    if (!violations.some(violation => violation.field === match[1])) {
+      violations.push({ field: match[1] });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Request body or parameters were rejected (HTTP 400/422)
+ */
+export class ValidationFailedError extends F5XCApiError {
+  /** Fields that failed validation (may be empty if the server did not say) */
+  readonly violations: FieldViolation[];
+
+  constructor(
+    message: string,
+    status: number = 400,
+    response?: unknown,
+    context?: Record<string, unknown>
+  ) {
+    const violations = findFieldViolations(message, parseApiErrorBody(response).details);
+    super(
+      message,
+      status,
+      response,
+      context,
+      violations.length > 0
+        ? `Fix the rejected fields: ${violations.map(violation => violation.field).join(", ")}.`
+        : "Check the request body against the API reference for this object kind."
+    );
+    this.name = "ValidationFailedError";
+    this.violations = violations;
+  }
+
+  /**
+   * Paths of the rejected fields
+   */
+  get fields(): string[] {
+    return this.violations.map(violation => violation.field);
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      violations: this.violations,
+    };
+  }
+}
+
+/**
+ * F5 XC failed to handle the request (HTTP 5xx)
+ */
+export class ServerError extends F5XCApiError {
+  constructor(
+    message: string,
+    status: number = 500,
+    response?: unknown,
+    context?: Record<string, unknown>
+  ) {
+    super(
+      message,
+      status,
+      response,
+      context,
+      "F5 XC could not handle the request. Retry later; if it keeps failing, " +
+        "contact F5 support with the time of the request and the tenant name."
+    );
+    this.name = "ServerError";
+  }
+}
+
+/**
+ * gRPC status codes used in F5 XC error payloads
+ */
+const GRPC_CODES = {
+  INVALID_ARGUMENT: 3,
+  NOT_FOUND: 5,
+  ALREADY_EXISTS: 6,
+  PERMISSION_DENIED: 7,
+  RESOURCE_EXHAUSTED: 8,
+  FAILED_PRECONDITION: 9,
+  ABORTED: 10,
+  UNAUTHENTICATED: 16,
+} as const;
+
+/**
+ * Build the typed API error for an HTTP error response
+ *
+ * The class is chosen from the HTTP status, refined by the payload's code
+ * (e.g. a 409 with code ALREADY_EXISTS becomes AlreadyExistsError).
+ *
+ * @param status - HTTP status (undefined if no response was received)
+ * @param response - Response body
+ * @param fallbackMessage - Message used when the body has none
+ * @param context - Additional context (retryAfterMs is used by RateLimitedError)
+ * @returns Typed error (plain F5XCApiError when nothing more specific applies)
+ */
+export function createApiError(
+  status: number | undefined,
+  response: unknown,
+  fallbackMessage: string,
+  context?: Record<string, unknown>
+): F5XCApiError {
+  const body = parseApiErrorBody(response);
+  const message = body.message ?? fallbackMessage;
+  const code = typeof body.code === "number" ? body.code : undefined;
+
+  if (status === 401 || code === GRPC_CODES.UNAUTHENTICATED) {
+    return new UnauthenticatedError(message, status, response, context);
+  }
+  if (status === 403 || code === GRPC_CODES.PERMISSION_DENIED) {
+    return new PermissionDeniedError(message, status, response, context);
+  }
+  if (status === 404 || code === GRPC_CODES.NOT_FOUND) {
+    return new NotFoundError(message, status, response, context);
+  }
+  if (
+    code === GRPC_CODES.ALREADY_EXISTS ||
+    (status === 409 && /already exists/i.test(message))
+  ) {
+    return new AlreadyExistsError(message, status, response, context);
+  }
+  if (status === 409 || code === GRPC_CODES.ABORTED) {
+    return new ConflictError(message, status, response, context);
+  }
+  if (status === 429 || code === GRPC_CODES.RESOURCE_EXHAUSTED) {
+    return new RateLimitedError(message, status, response, context);
+  }
+  if (
+    status === 400 ||
+    status === 422 ||
+    code === GRPC_CODES.INVALID_ARGUMENT ||
+    code === GRPC_CODES.FAILED_PRECONDITION
+  ) {
+    return new ValidationFailedError(message, status, response, context);
+  }
+  if (status !== undefined && status >= 500) {
+    return new ServerError(message, status, response, context);
+  }
+  return new F5XCApiError(message, status, response, context);
+}
+
+/**
+ * Why a request got no HTTP response
+ */
+export type NetworkErrorReason =
+  | "dns"
+  | "connection-refused"
+  | "connection-reset"
+  | "unreachable"
+  | "proxy"
+  | "timeout"
+  | "unknown";
+
+/**
+ * Network error options
+ */
+export interface NetworkErrorOptions {
+  /** Target host, sanitized for logs */
+  host?: string;
+  /** System error code, e.g. ECONNREFUSED */
+  systemCode?: string;
+  /** Whether repeating the request is safe and may succeed */
+  retryable: boolean;
+  /** Additional context */
+  context?: Record<string, unknown>;
+}
+
+const NETWORK_HINTS: Record<NetworkErrorReason, string> = {
+  dns:
+    "The tenant host name could not be resolved. Check the API URL for typos, " +
+    "and check DNS settings or VPN connectivity.",
+  "connection-refused":
+    "The connection was refused. Check the API URL and port, and whether a firewall " +
+    "or proxy (HTTPS_PROXY) is required on this network.",
+  "connection-reset":
+    "The connection was closed unexpectedly. A firewall, proxy or TLS-inspecting " +
+    "gateway may be interrupting traffic to the tenant.",
+  unreachable:
+    "The tenant network is unreachable. Check network connectivity, VPN and firewall rules.",
+  proxy:
+    "The proxy rejected or failed the request. Check HTTPS_PROXY, NO_PROXY and the proxy credentials.",
+  timeout:
+    "The request timed out. Increase the timeout option, or check for a slow proxy or " +
+    "firewall dropping traffic.",
+  unknown: "The request failed before a response was received. Check network connectivity.",
+};
+
+/**
+ * Request failed without an HTTP response (DNS, connection, proxy)
+ *
+ * Extends F5XCApiError (with no status) so existing handlers still match.
+ */
+export class NetworkError extends F5XCApiError {
+  /** Failure classification */
+  readonly reason: NetworkErrorReason;
+  /** Target host, sanitized */
+  readonly host?: string;
+  /** System error code, e.g. ECONNREFUSED */
+  readonly systemCode?: string;
+  /** Whether repeating the request is safe and may succeed */
+  readonly retryable: boolean;
+
+  constructor(message: string, reason: NetworkErrorReason, options: NetworkErrorOptions) {
+    super(message, undefined, undefined, options.context, NETWORK_HINTS[reason]);
+    this.name = "NetworkError";
+    this.reason = reason;
+    this.host = options.host;
+    this.systemCode = options.systemCode;
+    this.retryable = options.retryable;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      reason: this.reason,
+      host: this.host,
+      systemCode: this.systemCode,
+      retryable: this.retryable,
+    };
+  }
+}
+
+/**
+ * Request timed out
+ */
+export class TimeoutError extends NetworkError {
+  /** Configured timeout in milliseconds, if known */
+  readonly timeout?: number;
+
+  constructor(message: string, options: NetworkErrorOptions & { timeout?: number }) {
+    super(message, "timeout", options);
+    this.name = "TimeoutError";
+    this.timeout = options.timeout;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      timeout: this.timeout,
+    };
+  }
+}
+
+/**
+ * Methods that are safe to repeat after a partial failure
+ */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/**
+ * Build a NetworkError or TimeoutError from a failed request
+ *
+ * Failures before the request was sent (DNS, refused, unreachable, connect
+ * timeout) are retryable; a reset connection only for idempotent methods.
+ * Response timeouts are not retried - the server may still be working on the
+ * request. Definitive DNS failures (ENOTFOUND) and proxy failures are not
+ * retryable either.
+ *
+ * @param error - Error with a Node.js/axios error code
+ * @param request - Target URL, method, configured timeout and request ID
+ */
+export function createNetworkError(
+  error: { code?: string; message: string },
+  request: { url?: string; method?: string; timeout?: number; requestId?: string } = {}
+): NetworkError {
+  const code = error.code?.toUpperCase();
+  const idempotent = IDEMPOTENT_METHODS.has((request.method ?? "GET").toUpperCase());
+  const host = request.url ? /^[a-z]+:\/\/([^/]+)/i.exec(sanitizeUrlForLog(request.url))?.[1] : undefined;
+  const options = {
+    host,
+    systemCode: error.code,
+    context: {
+      method: request.method?.toUpperCase(),
+      originalError: error.message,
+      requestId: request.requestId,
+    },
+  };
+  const target = host ?? "the tenant";
+
+  if (code === "ECONNABORTED" || code === "ETIMEDOUT" || code === "ESOCKETTIMEDOUT") {
+    // ETIMEDOUT is a connect timeout - the request was never sent
+    return new TimeoutError(
+      request.timeout && code === "ECONNABORTED"
+        ? `Request to ${target} timed out after ${request.timeout}ms`
+        : `Request to ${target} timed out`,
+      { ...options, retryable: code !== "ECONNABORTED", timeout: request.timeout }
+    );
+  }
+
+  let reason: NetworkErrorReason;
+  let retryable: boolean;
+  if (/proxy/i.test(error.message) || code?.startsWith("ERR_PROXY")) {
+    reason = "proxy";
+    retryable = false;
+  } else if (code === "ENOTFOUND" || code === "EAI_AGAIN") {
+    reason = "dns";
+    retryable = code === "EAI_AGAIN";
+  } else if (code === "ECONNREFUSED") {
+    reason = "connection-refused";
+    retryable = true;
+  } else if (code === "ECONNRESET" || code === "EPIPE") {
+    reason = "connection-reset";
+    retryable = idempotent;
+  } else if (code === "ENETUNREACH" || code === "EHOSTUNREACH" || code === "ENETDOWN") {
+    reason = "unreachable";
+    retryable = true;
+  } else {
+    reason = "unknown";
+    retryable = idempotent;
+  }
+
+  const descriptions: Record<NetworkErrorReason, string> = {
+    dns: `Cannot resolve ${target}`,
+    "connection-refused": `Connection to ${target} refused`,
+    "connection-reset": `Connection to ${target} reset`,
+    unreachable: `${target} is unreachable`,
+    // Proxy tunnel errors explain what the proxy did, so keep them
+    proxy: `Proxy error while connecting to ${target}: ${error.message}`,
+    timeout: `Request to ${target} timed out`,
+    unknown: `Network error while connecting to ${target}`,
+  };
+  return new NetworkError(
+    `${descriptions[reason]}${error.code ? ` (${error.code})` : ""}`,
+    reason,
+    { ...options, retryable }
+  );
+}
+
 /**
  * Configuration errors
  */
@@ -92,6 +654,92 @@ export class ConfigurationError extends F5XCError {
   }
 }
 
+/**
+ * Request cancelled through its AbortSignal
+ */
+export class RequestCancelledError extends F5XCError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, "REQUEST_CANCELLED", context);
+    this.name = "RequestCancelledError";
+  }
+}
+
+/**
+ * Request did not complete (including queueing, retries and backoff) before its deadline
+ */
+export class DeadlineExceededError extends F5XCError {
+  /** Deadline in milliseconds */
+  readonly deadline: number;
+
+  constructor(message: string, deadline: number, context?: Record<string, unknown>) {
+    super(message, "DEADLINE_EXCEEDED", context);
+    this.name = "DeadlineExceededError";
+    this.deadline = deadline;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      deadline: this.deadline,
+    };
+  }
+}
+
+/**
+ * Request rejected without being sent because the endpoint's circuit is open
+ */
+export class CircuitOpenError extends F5XCError {
+  /** Tenant API URL */
+  readonly endpoint: string;
+  /** Milliseconds until a trial request is allowed (0 while a trial is in flight) */
+  readonly retryAfterMs: number;
+
+  constructor(
+    message: string,
+    endpoint: string,
+    retryAfterMs: number,
+    context?: Record<string, unknown>
+  ) {
+    super(message, "CIRCUIT_OPEN", context);
+    this.name = "CircuitOpenError";
+    this.endpoint = endpoint;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      endpoint: this.endpoint,
+      retryAfterMs: this.retryAfterMs,
+    };
+  }
+}
+
+/**
+ * Replayed request has no matching cassette entry (strict replay)
+ */
+export class CassetteMismatchError extends F5XCError {
+  /** HTTP method of the unmatched request */
+  readonly method: string;
+  /** Path of the unmatched request */
+  readonly path: string;
+
+  constructor(message: string, method: string, path: string, context?: Record<string, unknown>) {
+    super(message, "CASSETTE_MISMATCH", context);
+    this.name = "CassetteMismatchError";
+    this.method = method;
+    this.path = path;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      method: this.method,
+      path: this.path,
+    };
+  }
+}
+
 /**
  * SSL/TLS certificate validation errors
  */
@@ -5,3 +5,5 @@
  */
 export * from "./logging.js";
 export * from "./errors.js";
+export * from "./correlation.js";
+export * from "./url.js";
@@ -7,6 +7,8 @@
  * Provides structured logging with levels and context.
  */
 
+import { getCorrelationId } from "./correlation.js";
+
 /**
  * Log levels
  */
@@ -97,6 +99,11 @@ class Logger {
       entry.timestamp = new Date().toISOString();
     }
 
+    const correlationId = getCorrelationId();
+    if (correlationId) {
+      entry.context = { correlationId, ...entry.context };
+    }
+
     if (this.config.json) {
       // Structured JSON output
       process.stderr.write(JSON.stringify(entry) + "\n");
@@ -0,0 +1,47 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * URL helpers shared across modules
+ *
+ * @module url
+ * @since 1.5.0
+ * @packageDocumentation
+ */
+
+import { ConfigurationError } from "./errors.js";
+
+/**
+ * Parse a configured proxy URL
+ * Accepts host:port without a scheme, as curl does (http is assumed).
+ *
+ * @throws {ConfigurationError} If the URL is invalid or not an http/https proxy
+ */
+export function parseProxyUrl(value: string): URL {
+  let proxy: URL;
+  try {
+    proxy = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `http://${value}`);
+  } catch {
+    throw new ConfigurationError(
+      "Invalid proxy URL - expected http://[user:password@]host:port"
+    );
+  }
+  if (proxy.protocol !== "http:" && proxy.protocol !== "https:") {
+    throw new ConfigurationError(
+      `Unsupported proxy protocol '${proxy.protocol}' - only http and https proxies are supported`,
+      { proxy: sanitizeProxyUrl(proxy) }
+    );
+  }
+  return proxy;
+}
+
+/**
+ * Describe a proxy URL without its credentials
+ */
+export function sanitizeProxyUrl(proxy: URL | string): string {
+  try {
+    const url = typeof proxy === "string" ? new URL(proxy) : proxy;
+    return `${url.protocol}//${url.host}`;
+  } catch {
+    return "[invalid proxy URL]";
+  }
+}
@@ -14,6 +14,7 @@ vi.mock("fs/promises");
 vi.mock("../../src/utils/logging.js");
 vi.mock("../../src/profile/index.js");
 vi.mock("../../src/utils/path-security.js");
+vi.mock("../../src/auth/certificates.js");
 
 describe("Authentication Workflow Integration Tests", () => {
   let credentialManager: CredentialManager;
@@ -350,5 +351,34 @@ describe("Authentication Workflow Integration Tests", () => {
         "APIToken new-refreshed-token"
       );
     });
+
+    test("existing HTTP client picks up reloaded credentials", async () => {
+      // Arrange - client created before any credentials are available
+      mockAxios.onGet("/api/config/namespaces").reply(200, { items: [] });
+      await credentialManager.initialize();
+      const httpClient = new HttpClient(credentialManager);
+      expect(httpClient.isAvailable()).toBe(false);
+
+      // Act - credentials appear, then rotate
+      mockProfileManager.getActiveProfile.mockResolvedValue({
+        name: "late-profile",
+        apiUrl: "tenant.console.ves.volterra.io",
+        apiToken: "first-token",
+      });
+      await credentialManager.reload();
+      await httpClient.get("/api/config/namespaces");
+
+      mockProfileManager.getActiveProfile.mockResolvedValue({
+        name: "late-profile",
+        apiUrl: "tenant.console.ves.volterra.io",
+        apiToken: "rotated-token",
+      });
+      await credentialManager.reload();
+      await httpClient.get("/api/config/namespaces");
+
+      // Assert - same client instance used both tokens
+      expect(mockAxios.history.get[0].headers?.Authorization).toBe("APIToken first-token");
+      expect(mockAxios.history.get[1].headers?.Authorization).toBe("APIToken rotated-token");
+    });
   });
 });
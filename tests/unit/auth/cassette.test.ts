@@ -0,0 +1,355 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Unit tests for cassette record/replay
+ *
+ * Uses real Axios with a fake network adapter.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import axios, {
+  AxiosError,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import { Cassette, TENANT_PLACEHOLDER, type CassetteEntry } from "../../../src/auth/cassette.js";
+import { HttpClient } from "../../../src/auth/http-client.js";
+import { AuthMode, type CredentialManager } from "../../../src/auth/credential-manager.js";
+import {
+  CassetteMismatchError,
+  ConfigurationError,
+  NotFoundError,
+} from "../../../src/utils/errors.js";
+
+vi.mock("../../../src/utils/logging.js", () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const BASE_URL = "https://acme.console.ves.volterra.io/api";
+
+/** Fake tenant: answers from a path → [status, body] table */
+function fakeNetwork(routes: Record<string, [number, unknown]>): AxiosAdapter {
+  return vi.fn(async (config: InternalAxiosRequestConfig) => {
+    const url = new URL(axios.getUri(config));
+    const [status, body] = routes[url.pathname] ?? [404, { code: 5, message: "not found" }];
+    const response: AxiosResponse = {
+      data: JSON.stringify(body),
+      status,
+      statusText: status === 200 ? "OK" : "Not Found",
+      headers: {
+        "content-type": "application/json",
+        "content-length": "123",
+        "set-cookie": "session=abc",
+        "x-request-id": "req-1",
+      },
+      config,
+      request: {},
+    };
+    if (status >= 400) {
+      throw new AxiosError("Request failed", AxiosError.ERR_BAD_REQUEST, config, {}, response);
+    }
+    return response;
+  });
+}
+
+describe("Cassette", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "f5xc-cassette-"));
+    path = join(dir, "nested", "cassette.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const clientFor = (cassette: Cassette, network?: AxiosAdapter) =>
+    axios.create({
+      baseURL: BASE_URL,
+      headers: { Authorization: "APIToken secret-token" },
+      adapter: cassette.createAdapter("acme", network),
+    });
+
+  describe("record", () => {
+    test("records sanitized entries and saves them", async () => {
+      const network = fakeNetwork({
+        "/api/web/namespaces": [
+          200,
+          {
+            items: [{ name: "default", tenant: "acme", uid: "acme-x1y2" }],
+            credentials: { api_token: "abc123", password: "hunter2" },
+          },
+        ],
+      });
+      const cassette = await Cassette.load(path, { mode: "record" });
+
+      const response = await clientFor(cassette, network).post(
+        "/web/namespaces",
+        { name: "demo", private_key: "-----BEGIN" },
+        { params: { report: "acme", token: "query-secret" } }
+      );
+      await cassette.save();
+
+      expect(response.data.items[0].tenant).toBe("acme");
+      const saved = JSON.parse(await readFile(path, "utf-8")) as { version: number; entries: CassetteEntry[] };
+      expect(saved.version).toBe(1);
+      expect(saved.entries).toHaveLength(1);
+
+      const [entry] = saved.entries;
+      expect(entry.request).toMatchObject({
+        method: "POST",
+        path: "/api/web/namespaces",
+        query: { report: TENANT_PLACEHOLDER, token: "[REDACTED]" },
+        body: { name: "demo", private_key: "[REDACTED]" },
+      });
+      expect(entry.request.headers).not.toHaveProperty("authorization");
+      expect(entry.response).toEqual({
+        status: 200,
+        statusText: "OK",
+        headers: { "content-type": "application/json", "x-request-id": "req-1" },
+        body: {
+          items: [{ name: "default", tenant: TENANT_PLACEHOLDER, uid: `${TENANT_PLACEHOLDER}-x1y2` }],
+          credentials: { api_token: "[REDACTED]", password: "[REDACTED]" },
+        },
+        encoding: "json",
+      });
+      expect(JSON.stringify(saved)).not.toMatch(/secret|hunter2|abc123|acme/);
+    });
+
+    test("records error responses and rethrows them", async () => {
+      const cassette = await Cassette.load(path, { mode: "record" });
+
+      await expect(clientFor(cassette, fakeNetwork({})).get("/web/namespaces/missing")).rejects.toThrow(
+        AxiosError
+      );
+
+      expect(cassette.entries[0].response).toMatchObject({ status: 404, body: { code: 5 } });
+    });
+
+    test("applies redactFields and the sanitize hook", async () => {
+      const network = fakeNetwork({ "/api/users": [200, { email: "a@example.com", owner: "bob" }] });
+      const cassette = await Cassette.load(path, {
+        mode: "record",
+        redactFields: ["owner"],
+        sanitize: entry => ({
+          ...entry,
+          response: { ...entry.response, body: { ...(entry.response.body as object), email: "user@example.com" } },
+        }),
+      });
+
+      await clientFor(cassette, network).get("/users");
+
+      expect(cassette.entries[0].response.body).toEqual({ email: "user@example.com", owner: "[REDACTED]" });
+    });
+  });
+
+  describe("replay", () => {
+    const entry = (path: string, body: unknown, query = {}): CassetteEntry => ({
+      request: { method: "GET", path, query, headers: {} },
+      response: { status: 200, statusText: "OK", headers: {}, body, encoding: "json" },
+      recordedAt: "2026-10-19T00:00:00.000Z",
+    });
+
+    test("serves recorded responses without the network", async () => {
+      const file = join(dir, "cassette.json");
+      await writeFile(file, JSON.stringify({ version: 1, entries: [entry("/api/web/namespaces", { items: [] })] }));
+      const network = vi.fn();
+      const cassette = await Cassette.load(file, { mode: "replay", strict: true });
+
+      const response = await clientFor(cassette, network).get("/web/namespaces");
+
+      expect(response.status).toBe(200);
+      expect(response.data).toEqual({ items: [] });
+      expect(network).not.toHaveBeenCalled();
+      expect(cassette.unplayed()).toEqual([]);
+    });
+
+    test("replays identical requests in order, then repeats the last", async () => {
+      const cassette = new Cassette(path, { mode: "replay", strict: true }, [
+        entry("/api/status", { state: "pending" }),
+        entry("/api/status", { state: "ready" }),
+      ]);
+      const client = clientFor(cassette);
+
+      const states = [];
+      for (let i = 0; i < 3; i++) {
+        states.push((await client.get("/status")).data.state);
+      }
+
+      expect(states).toEqual(["pending", "ready", "ready"]);
+    });
+
+    test("matches on query parameters, after sanitizing the request", async () => {
+      const cassette = new Cassette(path, { mode: "replay", strict: true }, [
+        entry("/api/items", { page: 1 }, { page: "1", token: "[REDACTED]" }),
+        entry("/api/items", { page: 2 }, { page: "2", token: "[REDACTED]" }),
+      ]);
+
+      const response = await clientFor(cassette).get("/items", {
+        params: { page: 2, token: "live-token" },
+      });
+
+      expect(response.data).toEqual({ page: 2 });
+    });
+
+    test("matches bodies when configured", async () => {
+      const create = (name: string): CassetteEntry => ({
+        ...entry("/api/namespaces", { created: name }),
+        request: { method: "POST", path: "/api/namespaces", query: {}, headers: {}, body: { name } },
+      });
+      const cassette = new Cassette(
+        path,
+        { mode: "replay", strict: true, match: ["method", "path", "body"] },
+        [create("one"), create("two")]
+      );
+
+      const response = await clientFor(cassette).post("/namespaces", { name: "two" });
+
+      expect(response.data).toEqual({ created: "two" });
+    });
+
+    test("applies a custom matchRequest rule", async () => {
+      const cassette = new Cassette(
+        path,
+        {
+          mode: "replay",
+          strict: true,
+          matchRequest: (request, recorded) =>
+            request.headers["x-variant"] === recorded.request.headers["x-variant"],
+        },
+        [
+          { ...entry("/api/a", "first"), request: { ...entry("/api/a", "").request, headers: { "x-variant": "1" } } },
+          { ...entry("/api/a", "second"), request: { ...entry("/api/a", "").request, headers: { "x-variant": "2" } } },
+        ]
+      );
+
+      const response = await clientFor(cassette).get("/a", { headers: { "X-Variant": "2" } });
+
+      expect(response.data).toBe("second");
+    });
+
+    test("strict mode fails unmatched requests", async () => {
+      const network = vi.fn();
+      const cassette = new Cassette(path, { mode: "replay", strict: true }, [entry("/api/a", {})]);
+
+      const error = await clientFor(cassette, network)
+        .get("/b")
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(CassetteMismatchError);
+      expect(error).toMatchObject({ method: "GET", path: "/api/b", code: "CASSETTE_MISMATCH" });
+      expect(network).not.toHaveBeenCalled();
+    });
+
+    test("non-strict mode sends unmatched requests", async () => {
+      const network = fakeNetwork({ "/api/b": [200, { live: true }] });
+      const cassette = new Cassette(path, { mode: "replay" }, [entry("/api/a", {})]);
+
+      const response = await clientFor(cassette, network).get("/b");
+
+      expect(response.data).toEqual({ live: true });
+      expect(cassette.unplayed()).toHaveLength(1);
+    });
+
+    test("replays binary bodies for arraybuffer responses", async () => {
+      const bytes = Buffer.from([0, 255, 1, 254]);
+      const cassette = new Cassette(path, { mode: "replay", strict: true }, [
+        {
+          ...entry("/api/file", bytes.toString("base64")),
+          response: {
+            status: 200,
+            statusText: "OK",
+            headers: {},
+            body: bytes.toString("base64"),
+            encoding: "base64",
+          },
+        },
+      ]);
+
+      const response = await clientFor(cassette).get("/file", { responseType: "arraybuffer" });
+
+      expect(Buffer.from(response.data).equals(bytes)).toBe(true);
+    });
+
+    test("reports missing and invalid cassettes", async () => {
+      await expect(Cassette.load(join(dir, "missing.json"), { mode: "replay" })).rejects.toThrow(
+        /Cassette not found/
+      );
+
+      const invalid = join(dir, "invalid.json");
+      await writeFile(invalid, JSON.stringify({ entries: {} }));
+      await expect(Cassette.load(invalid, { mode: "replay" })).rejects.toThrow(ConfigurationError);
+    });
+  });
+
+  describe("with HttpClient", () => {
+    const credentialManager = {
+      isAuthenticated: () => true,
+      getAuthMode: () => AuthMode.TOKEN,
+      getApiUrl: () => BASE_URL,
+      getTenant: () => "acme",
+      getNamespace: () => "default",
+      getToken: () => "any-token",
+      getCaBundle: () => null,
+      getTlsInsecure: () => false,
+      getProxy: () => null,
+      getNoProxy: () => null,
+      getP12Certificate: () => null,
+      getP12Password: () => null,
+      getCert: () => null,
+      getKey: () => null,
+      getGeneration: () => 1,
+    } as unknown as CredentialManager;
+
+    test("replays responses and typed errors", async () => {
+      const cassette = new Cassette(path, { mode: "replay", strict: true }, [
+        {
+          request: { method: "GET", path: "/api/web/namespaces", query: {}, headers: {} },
+          response: {
+            status: 200,
+            statusText: "OK",
+            headers: { "x-request-id": "recorded-id" },
+            body: { items: [{ name: "default" }] },
+            encoding: "json",
+          },
+          recordedAt: "2026-10-19T00:00:00.000Z",
+        },
+        {
+          request: { method: "GET", path: "/api/web/namespaces/missing", query: {}, headers: {} },
+          response: {
+            status: 404,
+            statusText: "Not Found",
+            headers: {},
+            body: { code: 5, message: "namespace missing not found" },
+            encoding: "json",
+          },
+          recordedAt: "2026-10-19T00:00:00.000Z",
+        },
+      ]);
+      const httpClient = new HttpClient(credentialManager, {
+        cassette,
+        retry: { retries: 0 },
+      });
+
+      const response = await httpClient.get("/web/namespaces");
+      expect(response).toMatchObject({
+        status: 200,
+        data: { items: [{ name: "default" }] },
+        requestId: "recorded-id",
+      });
+
+      await expect(httpClient.get("/web/namespaces/missing")).rejects.toThrow(NotFoundError);
+    });
+  });
+});
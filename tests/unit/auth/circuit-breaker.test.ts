@@ -0,0 +1,114 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Unit tests for CircuitBreaker
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest";
+import { CircuitBreaker, type CircuitStateChangeEvent } from "../../../src/auth/circuit-breaker.js";
+import { CircuitOpenError } from "../../../src/utils/errors.js";
+
+vi.mock("../../../src/utils/logging.js", () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const ENDPOINT = "https://tenant.console.ves.volterra.io";
+
+describe("CircuitBreaker", () => {
+  let events: CircuitStateChangeEvent[];
+  let breaker: CircuitBreaker;
+
+  const fail = (times: number): void => {
+    for (let i = 0; i < times; i++) {
+      breaker.beforeAttempt();
+      breaker.recordFailure();
+    }
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    events = [];
+    breaker = new CircuitBreaker(ENDPOINT, { failureThreshold: 3, cooldownMs: 1000 }, event =>
+      events.push(event)
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("opens after consecutive failures and fails fast", () => {
+    fail(2);
+    expect(breaker.getState()).toBe("closed");
+
+    fail(1);
+    expect(breaker.getState()).toBe("open");
+    expect(events).toEqual([{ endpoint: ENDPOINT, from: "closed", to: "open", failures: 3 }]);
+
+    try {
+      breaker.beforeAttempt();
+      expect.fail("expected CircuitOpenError");
+    } catch (error) {
+      expect(error).toBeInstanceOf(CircuitOpenError);
+      expect(error).toMatchObject({ endpoint: ENDPOINT, retryAfterMs: 1000 });
+    }
+    expect(() => breaker.throwIfOpen()).toThrow(CircuitOpenError);
+  });
+
+  test("a success resets the failure count", () => {
+    fail(2);
+    breaker.beforeAttempt();
+    breaker.recordSuccess();
+    fail(2);
+
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.getFailures()).toBe(2);
+  });
+
+  test("allows a single trial request after the cooldown", () => {
+    fail(3);
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.getState()).toBe("half-open");
+    expect(() => breaker.throwIfOpen()).not.toThrow();
+    breaker.beforeAttempt();
+    expect(() => breaker.beforeAttempt()).toThrow(CircuitOpenError);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe("closed");
+    expect(events.map(event => event.to)).toEqual(["open", "half-open", "closed"]);
+  });
+
+  test("a failed trial opens the circuit for another cooldown", () => {
+    fail(3);
+    vi.advanceTimersByTime(1000);
+    fail(1);
+
+    expect(breaker.getState()).toBe("open");
+    vi.advanceTimersByTime(999);
+    expect(() => breaker.beforeAttempt()).toThrow(CircuitOpenError);
+  });
+
+  test("an inconclusive trial frees the trial slot", () => {
+    fail(3);
+    vi.advanceTimersByTime(1000);
+    breaker.beforeAttempt();
+    breaker.recordInconclusive();
+
+    expect(() => breaker.beforeAttempt()).not.toThrow();
+  });
+
+  test("reset closes the circuit", () => {
+    fail(3);
+    breaker.reset();
+
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.getFailures()).toBe(0);
+    expect(() => breaker.beforeAttempt()).not.toThrow();
+  });
+});
@@ -0,0 +1,130 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Unit tests for external credential process support
+ *
+ * - Execution: Running commands and parsing JSON output
+ * - Validation: Version, credential fields, expiry format
+ * - Caching: Reuse until reported expiry
+ */
+
+import { describe, test, expect, beforeEach } from "vitest";
+import {
+  runCredentialProcess,
+  clearCredentialProcessCache,
+} from "../../../src/auth/credential-process.js";
+import { AuthenticationError } from "../../../src/utils/errors.js";
+
+/**
+ * Build a shell command that prints the given JSON via node
+ */
+function printJson(value: unknown): string {
+  const script = `process.stdout.write(${JSON.stringify(JSON.stringify(value))})`;
+  return `"${process.execPath}" -e '${script}'`;
+}
+
+/**
+ * Build a command whose output changes on every run (counter in the output)
+ */
+function printCounter(expiresAt?: string): string {
+  const expiry = expiresAt ? `, expiresAt: ${JSON.stringify(expiresAt)}` : "";
+  const script = `process.stdout.write(JSON.stringify({ version: 1, apiToken: String(process.hrtime.bigint())${expiry} }))`;
+  return `"${process.execPath}" -e '${script}'`;
+}
+
+describe("runCredentialProcess", () => {
+  beforeEach(() => {
+    clearCredentialProcessCache();
+  });
+
+  describe("Execution", () => {
+    test("parses token output", async () => {
+      const output = await runCredentialProcess(
+        printJson({ version: 1, apiToken: "brokered-token" })
+      );
+
+      expect(output.apiToken).toBe("brokered-token");
+    });
+
+    test("parses certificate output", async () => {
+      const output = await runCredentialProcess(
+        printJson({ version: 1, cert: "/tmp/c.pem", key: "/tmp/k.pem" })
+      );
+
+      expect(output).toMatchObject({ cert: "/tmp/c.pem", key: "/tmp/k.pem" });
+    });
+
+    test("throws AuthenticationError when command exits non-zero", async () => {
+      await expect(
+        runCredentialProcess(`"${process.execPath}" -e 'process.exit(3)'`)
+      ).rejects.toThrow(AuthenticationError);
+    });
+
+    test("throws when command times out", async () => {
+      await expect(
+        runCredentialProcess(`"${process.execPath}" -e 'setTimeout(() => {}, 5000)'`, {
+          timeout: 200,
+        })
+      ).rejects.toThrow(/Credential process failed/);
+    });
+  });
+
+  describe("Validation", () => {
+    test("rejects non-JSON output", async () => {
+      await expect(runCredentialProcess("echo not-json")).rejects.toThrow(/valid JSON/);
+    });
+
+    test("rejects unsupported versions", async () => {
+      await expect(
+        runCredentialProcess(printJson({ version: 2, apiToken: "t" }))
+      ).rejects.toThrow(/version/);
+    });
+
+    test("rejects output without credentials", async () => {
+      await expect(runCredentialProcess(printJson({ version: 1 }))).rejects.toThrow(
+        /must include/
+      );
+    });
+
+    test("rejects invalid or past expiry", async () => {
+      await expect(
+        runCredentialProcess(printJson({ version: 1, apiToken: "t", expiresAt: "soon" }))
+      ).rejects.toThrow(/invalid expiresAt/);
+      await expect(
+        runCredentialProcess(
+          printJson({ version: 1, apiToken: "t", expiresAt: "2000-01-01T00:00:00Z" })
+        )
+      ).rejects.toThrow(/already-expired/);
+    });
+  });
+
+  describe("Caching", () => {
+    test("reuses output until expiry", async () => {
+      const command = printCounter(new Date(Date.now() + 60_000).toISOString());
+
+      const first = await runCredentialProcess(command);
+      const second = await runCredentialProcess(command);
+
+      expect(second.apiToken).toBe(first.apiToken);
+    });
+
+    test("caches output without expiry for the process lifetime", async () => {
+      const command = printCounter();
+
+      const first = await runCredentialProcess(command);
+      const second = await runCredentialProcess(command);
+
+      expect(second.apiToken).toBe(first.apiToken);
+    });
+
+    test("re-runs the command after clearing the cache", async () => {
+      const command = printCounter();
+
+      const first = await runCredentialProcess(command);
+      clearCredentialProcessCache(command);
+      const second = await runCredentialProcess(command);
+
+      expect(second.apiToken).not.toBe(first.apiToken);
+    });
+  });
+});
@@ -0,0 +1,226 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Unit tests for credential providers and the provider chain
+ *
+ * - Built-in providers: environment, active profile, named profile, token file, custom
+ * - Chain builder: ordering, prepend, remove
+ */
+
+import { describe, test, expect, beforeEach, vi } from "vitest";
+import {
+  AUTH_ENV_VARS,
+  CredentialProviderChain,
+  activeProfileProvider,
+  customProvider,
+  environmentProvider,
+  namedProfileProvider,
+  tokenFileProvider,
+} from "../../../src/auth/credential-providers.js";
+import { ConfigurationError } from "../../../src/utils/errors.js";
+import { logger } from "../../../src/utils/logging.js";
+
+vi.mock("fs/promises");
+vi.mock("../../../src/utils/logging.js");
+vi.mock("../../../src/profile/index.js");
+vi.mock("../../../src/utils/path-security.js");
+
+describe("Credential providers", () => {
+  let mockProfileManager: any;
+
+  beforeEach(async () => {
+    Object.values(AUTH_ENV_VARS).forEach(envVar => {
+      delete process.env[envVar];
+    });
+    vi.clearAllMocks();
+
+    const { getProfileManager } = await import("../../../src/profile/index.js");
+    mockProfileManager = {
+      getActiveProfile: vi.fn().mockResolvedValue(null),
+      get: vi.fn().mockResolvedValue(null),
+    };
+    vi.mocked(getProfileManager).mockReturnValue(mockProfileManager);
+
+    const pathSecurity = await import("../../../src/utils/path-security.js");
+    vi.mocked(pathSecurity.validateFilePath).mockImplementation(path => path);
+    vi.mocked(pathSecurity.sanitizePathForLog).mockImplementation(path => path ?? "[not set]");
+  });
+
+  describe("environmentProvider", () => {
+    test("skips when API URL is not set", async () => {
+      process.env[AUTH_ENV_VARS.API_TOKEN] = "token";
+
+      expect(await environmentProvider().load()).toEqual({
+        skip: "F5XC_API_URL is not set",
+      });
+    });
+
+    test("skips when no authentication variables are set", async () => {
+      process.env[AUTH_ENV_VARS.API_URL] = "tenant.console.ves.volterra.io";
+
+      const result = await environmentProvider().load();
+
+      expect(result).toEqual({ skip: expect.stringContaining("no authentication variables") });
+    });
+
+    test("returns environment credential source", async () => {
+      process.env[AUTH_ENV_VARS.API_URL] = "tenant.console.ves.volterra.io";
+      process.env[AUTH_ENV_VARS.API_TOKEN] = "token";
+      process.env[AUTH_ENV_VARS.TLS_INSECURE] = "TRUE";
+
+      const result = await environmentProvider().load();
+
+      expect(result).toMatchObject({
+        source: { apiToken: "token", tlsInsecure: true },
+        profileName: null,
+      });
+    });
+  });
+
+  describe("activeProfileProvider", () => {
+    test("returns the active profile", async () => {
+      mockProfileManager.getActiveProfile.mockResolvedValue({
+        name: "dev",
+        apiUrl: "https://dev.io",
+        apiToken: "t",
+      });
+
+      expect(await activeProfileProvider().load()).toMatchObject({ profileName: "dev" });
+    });
+
+    test("skips when there is no active profile", async () => {
+      expect(await activeProfileProvider().load()).toEqual({ skip: "no active profile" });
+    });
+
+    test("logs configuration errors loudly and skips", async () => {
+      mockProfileManager.getActiveProfile.mockRejectedValue(
+        new ConfigurationError("no decryption key")
+      );
+
+      const result = await activeProfileProvider().load();
+
+      expect(result).toEqual({ skip: expect.stringContaining("no decryption key") });
+      expect(logger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe("namedProfileProvider", () => {
+    test("loads the named profile", async () => {
+      mockProfileManager.get.mockResolvedValue({ name: "prod", apiUrl: "https://p.io" });
+
+      const provider = namedProfileProvider("prod");
+
+      expect(provider.name).toBe("profile:prod");
+      expect(await provider.load()).toMatchObject({ profileName: "prod" });
+      expect(mockProfileManager.get).toHaveBeenCalledWith("prod");
+    });
+
+    test("skips when the profile does not exist", async () => {
+      expect(await namedProfileProvider("missing").load()).toEqual({
+        skip: "profile 'missing' not found",
+      });
+    });
+
+    test("throws when a required profile does not exist", async () => {
+      mockProfileManager.list = vi.fn().mockRejectedValue(new Error("EACCES"));
+
+      await expect(
+        namedProfileProvider("missing", { required: true }).load()
+      ).rejects.toThrow("Profile 'missing' not found. Available profiles: none.");
+    });
+  });
+
+  describe("tokenFileProvider", () => {
+    test("reads and trims the token", async () => {
+      const { readFile } = await import("fs/promises");
+      vi.mocked(readFile).mockResolvedValue("  file-token\n" as any);
+
+      const result = await tokenFileProvider({
+        apiUrl: "tenant.console.ves.volterra.io",
+        tokenFile: "/run/secrets/f5xc",
+      }).load();
+
+      expect(result).toMatchObject({ source: { apiToken: "file-token" } });
+    });
+
+    test("skips when the file cannot be read", async () => {
+      const { readFile } = await import("fs/promises");
+      vi.mocked(readFile).mockRejectedValue(new Error("ENOENT"));
+
+      const result = await tokenFileProvider({
+        apiUrl: "tenant.console.ves.volterra.io",
+        tokenFile: "/run/secrets/f5xc",
+      }).load();
+
+      expect(result).toEqual({ skip: expect.stringContaining("cannot read token file") });
+    });
+
+    test("skips when the file is empty", async () => {
+      const { readFile } = await import("fs/promises");
+      vi.mocked(readFile).mockResolvedValue("\n" as any);
+
+      const result = await tokenFileProvider({
+        apiUrl: "tenant.console.ves.volterra.io",
+        tokenFile: "/run/secrets/f5xc",
+      }).load();
+
+      expect(result).toEqual({ skip: expect.stringContaining("is empty") });
+    });
+  });
+
+  describe("customProvider", () => {
+    test("wraps a fetch function", async () => {
+      const provider = customProvider("broker", async () => ({
+        name: "broker",
+        apiUrl: "https://t.io",
+        apiToken: "t",
+      }));
+
+      expect(await provider.load()).toMatchObject({ source: { apiToken: "t" } });
+    });
+
+    test("skips when fetch returns null", async () => {
+      const provider = customProvider("broker", async () => null);
+
+      expect(await provider.load()).toEqual({ skip: "provider returned no credentials" });
+    });
+  });
+
+  describe("CredentialProviderChain", () => {
+    test("default chain is environment then active profile", () => {
+      expect(CredentialProviderChain.default().names()).toEqual([
+        "environment",
+        "active-profile",
+      ]);
+    });
+
+    test("default chain uses F5XC_PROFILE instead of the active profile", () => {
+      process.env[AUTH_ENV_VARS.PROFILE] = "prod";
+
+      expect(CredentialProviderChain.default().names()).toEqual(["environment", "profile:prod"]);
+      expect(CredentialProviderChain.default({ profile: "dev" }).names()).toEqual([
+        "environment",
+        "profile:dev",
+      ]);
+    });
+
+    test("supports reordering with remove, add and prepend", () => {
+      const chain = CredentialProviderChain.default()
+        .remove("environment")
+        .add(environmentProvider())
+        .prepend(customProvider("first", async () => null));
+
+      expect(chain.names()).toEqual(["first", "active-profile", "environment"]);
+    });
+
+    test("does not share state with the array it was created from", () => {
+      const providers = [environmentProvider()];
+      const chain = new CredentialProviderChain(providers);
+
+      chain.add(activeProfileProvider());
+
+      expect(providers).toHaveLength(1);
+      expect(chain.getProviders()).toHaveLength(2);
+    });
+  });
+});
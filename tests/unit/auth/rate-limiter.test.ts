@@ -0,0 +1,148 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Unit tests for rate limiting and the shared limiter registry
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  RateLimiter,
+  rateLimiterKey,
+  getSharedRateLimiter,
+  getSharedRateLimiterStats,
+  clearSharedRateLimiters,
+  releaseSharedRateLimiter,
+} from "../../../src/auth/rate-limiter.js";
+import { logger } from "../../../src/utils/logging.js";
+
+vi.mock("../../../src/utils/logging.js", () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const OPTIONS = { maxRequests: 2, perMilliseconds: 1000, maxConcurrent: 1 };
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("reports requests waiting for tokens and for slots", async () => {
+    const limiter = new RateLimiter(OPTIONS);
+
+    await limiter.acquire();
+    const second = limiter.acquire();
+    const third = limiter.acquire();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(limiter.getStats()).toMatchObject({
+      key: null,
+      availableTokens: 0,
+      activeRequests: 1,
+      waitingForToken: 1,
+      waitingForSlot: 1,
+      queuedRequests: 2,
+    });
+
+    limiter.release();
+    await second;
+    await vi.advanceTimersByTimeAsync(500);
+    limiter.release();
+    await third;
+
+    expect(limiter.getStats()).toMatchObject({ activeRequests: 1, queuedRequests: 0 });
+  });
+  test("an aborted wait for a slot leaves the queue and returns its token", async () => {
+    const limiter = new RateLimiter(OPTIONS);
+    const controller = new AbortController();
+
+    await limiter.acquire();
+    const queued = limiter.acquire(controller.signal);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(limiter.getStats()).toMatchObject({ availableTokens: 0, waitingForSlot: 1 });
+
+    controller.abort(new Error("stop"));
+    await expect(queued).rejects.toThrow("stop");
+    expect(limiter.getStats()).toMatchObject({ availableTokens: 1, waitingForSlot: 0 });
+
+    limiter.release();
+    expect(limiter.getStats().activeRequests).toBe(0);
+  });
+});
+
+describe("shared rate limiter registry", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearSharedRateLimiters();
+  });
+
+  test("rateLimiterKey hashes the credential and ignores trailing slashes", () => {
+    const key = rateLimiterKey("https://tenant.console.ves.volterra.io/", "secret-token");
+
+    expect(key).toMatch(/^https:\/\/tenant\.console\.ves\.volterra\.io#[0-9a-f]{16}$/);
+    expect(key).not.toContain("secret-token");
+    expect(rateLimiterKey("https://tenant.console.ves.volterra.io", "secret-token")).toBe(key);
+    expect(rateLimiterKey("https://tenant.console.ves.volterra.io", "other-token")).not.toBe(key);
+  });
+
+  test("returns the same limiter for a key and keeps the first options", () => {
+    const first = getSharedRateLimiter("tenant#a", OPTIONS);
+    const second = getSharedRateLimiter("tenant#a", { ...OPTIONS, maxRequests: 50 });
+
+    expect(second).toBe(first);
+    expect(second.getStats().maxRate).toBe(2);
+    expect(logger.debug).toHaveBeenCalledWith(
+      "Shared rate limiter already exists with different limits - keeping them",
+      expect.objectContaining({ key: "tenant#a" })
+    );
+  });
+
+  test("reports stats for every shared limiter", () => {
+    getSharedRateLimiter("tenant#a", OPTIONS);
+    getSharedRateLimiter("tenant#b", OPTIONS);
+
+    expect(getSharedRateLimiterStats().map(stats => stats.key)).toEqual(["tenant#a", "tenant#b"]);
+  });
+
+  test("drops a shared limiter when its last user releases it", () => {
+    const first = getSharedRateLimiter("tenant#a", OPTIONS);
+    const second = getSharedRateLimiter("tenant#a", OPTIONS);
+
+    releaseSharedRateLimiter(first);
+    expect(getSharedRateLimiterStats()).toHaveLength(1);
+
+    releaseSharedRateLimiter(second);
+    expect(getSharedRateLimiterStats()).toEqual([]);
+    expect(getSharedRateLimiter("tenant#a", OPTIONS)).not.toBe(first);
+  });
+
+  test("ignores releases of limiters no longer in the registry", () => {
+    const stale = getSharedRateLimiter("tenant#a", OPTIONS);
+    clearSharedRateLimiters();
+    const current = getSharedRateLimiter("tenant#a", OPTIONS);
+
+    releaseSharedRateLimiter(stale);
+    releaseSharedRateLimiter(new RateLimiter(OPTIONS));
+
+    expect(getSharedRateLimiter("tenant#a", OPTIONS)).toBe(current);
+  });
+
+  test("clearSharedRateLimiters removes one key or all", () => {
+    const a = getSharedRateLimiter("tenant#a", OPTIONS);
+    getSharedRateLimiter("tenant#b", OPTIONS);
+
+    clearSharedRateLimiters("tenant#b");
+    expect(getSharedRateLimiterStats()).toHaveLength(1);
+
+    clearSharedRateLimiters();
+    expect(getSharedRateLimiter("tenant#a", OPTIONS)).not.toBe(a);
+  });
+});
@@ -0,0 +1,150 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Unit tests for profile secret encryption
+ *
+ * - Round trip: Sealing and opening values and profiles
+ * - Key material: Passphrase, key file, environment configuration
+ * - Failures: Wrong key, malformed values, missing key material
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  ProfileCipher,
+  isEncryptedValue,
+  hasEncryptedFields,
+  ENCRYPTION_ENV_VARS,
+  ENCRYPTED_VALUE_PREFIX,
+} from "../../../src/profile/encryption.js";
+import { ConfigurationError } from "../../../src/utils/errors.js";
+import type { Profile } from "../../../src/profile/types.js";
+
+describe("ProfileCipher", () => {
+  const profile: Profile = {
+    name: "secure",
+    apiUrl: "https://tenant.console.ves.volterra.io",
+    apiToken: "super-secret-token",
+    defaultNamespace: "system",
+  };
+
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "f5xc-enc-"));
+    delete process.env[ENCRYPTION_ENV_VARS.PASSPHRASE];
+    delete process.env[ENCRYPTION_ENV_VARS.KEY_FILE];
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+    delete process.env[ENCRYPTION_ENV_VARS.PASSPHRASE];
+    delete process.env[ENCRYPTION_ENV_VARS.KEY_FILE];
+  });
+
+  describe("Round trip", () => {
+    test("encrypts and decrypts a value with a passphrase", async () => {
+      const cipher = new ProfileCipher({ passphrase: "passphrase" });
+
+      const sealed = await cipher.encrypt("hello");
+
+      expect(sealed.startsWith(ENCRYPTED_VALUE_PREFIX)).toBe(true);
+      expect(sealed).not.toContain("hello");
+      expect(await cipher.decrypt(sealed)).toBe("hello");
+    });
+
+    test("produces a different ciphertext for each encryption", async () => {
+      const cipher = new ProfileCipher({ passphrase: "passphrase" });
+
+      const first = await cipher.encrypt("hello");
+      const second = await cipher.encrypt("hello");
+
+      expect(first).not.toBe(second);
+    });
+
+    test("seals only secret fields of a profile", async () => {
+      const cipher = new ProfileCipher({ passphrase: "passphrase" });
+
+      const sealed = await cipher.sealProfile(profile);
+
+      expect(isEncryptedValue(sealed.apiToken)).toBe(true);
+      expect(sealed.apiUrl).toBe(profile.apiUrl);
+      expect(sealed.defaultNamespace).toBe("system");
+      expect(hasEncryptedFields(sealed)).toBe(true);
+      expect(await cipher.openProfile(sealed)).toEqual(profile);
+    });
+
+    test("does not double-seal already sealed fields", async () => {
+      const cipher = new ProfileCipher({ passphrase: "passphrase" });
+
+      const sealed = await cipher.sealProfile(profile);
+      const resealed = await cipher.sealProfile(sealed);
+
+      expect(resealed.apiToken).toBe(sealed.apiToken);
+    });
+  });
+
+  describe("Key material", () => {
+    test("derives key from a key file", async () => {
+      const keyFile = join(tempDir, "profile.key");
+      writeFileSync(keyFile, "0123456789abcdef0123456789abcdef");
+      const cipher = new ProfileCipher({ keyFile });
+
+      const sealed = await cipher.encrypt("hello");
+
+      expect(await new ProfileCipher({ keyFile }).decrypt(sealed)).toBe("hello");
+    });
+
+    test("fails clearly when key file is missing", async () => {
+      const cipher = new ProfileCipher({ keyFile: join(tempDir, "missing.key") });
+
+      await expect(cipher.encrypt("hello")).rejects.toThrow(/key file/);
+    });
+
+    test("fails clearly when key file is empty", async () => {
+      const keyFile = join(tempDir, "empty.key");
+      writeFileSync(keyFile, "");
+      const cipher = new ProfileCipher({ keyFile });
+
+      await expect(cipher.encrypt("hello")).rejects.toThrow(/empty/);
+    });
+
+    test("requires passphrase or key file", () => {
+      expect(() => new ProfileCipher({})).toThrow(ConfigurationError);
+    });
+
+    test("fromEnvironment returns null without key material", () => {
+      expect(ProfileCipher.fromEnvironment()).toBeNull();
+    });
+
+    test("fromEnvironment uses F5XC_PROFILE_PASSPHRASE", async () => {
+      process.env[ENCRYPTION_ENV_VARS.PASSPHRASE] = "env-passphrase";
+
+      const cipher = ProfileCipher.fromEnvironment();
+      const sealed = await cipher!.encrypt("hello");
+
+      expect(await new ProfileCipher({ passphrase: "env-passphrase" }).decrypt(sealed)).toBe(
+        "hello"
+      );
+    });
+  });
+
+  describe("Failures", () => {
+    test("rejects decryption with the wrong passphrase", async () => {
+      const sealed = await new ProfileCipher({ passphrase: "right" }).encrypt("hello");
+
+      await expect(new ProfileCipher({ passphrase: "wrong" }).decrypt(sealed)).rejects.toThrow(
+        /does not match/
+      );
+    });
+
+    test("rejects malformed sealed values", async () => {
+      const cipher = new ProfileCipher({ passphrase: "passphrase" });
+
+      await expect(cipher.decrypt(`${ENCRYPTED_VALUE_PREFIX}abc`)).rejects.toThrow(/Malformed/);
+      await expect(cipher.decrypt("plaintext")).rejects.toThrow(ConfigurationError);
+    });
+  });
+});
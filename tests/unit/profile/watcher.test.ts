@@ -0,0 +1,92 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ProfileWatcher, type ProfileChange } from "../../../src/profile/watcher.js";
+
+vi.mock("../../../src/utils/logging.js");
+
+describe("ProfileWatcher", () => {
+  let configHome: string;
+  let originalXdg: string | undefined;
+  let watcher: ProfileWatcher | null = null;
+
+  beforeEach(async () => {
+    originalXdg = process.env.XDG_CONFIG_HOME;
+    configHome = await mkdtemp(join(tmpdir(), "f5xc-watch-"));
+    process.env.XDG_CONFIG_HOME = configHome;
+  });
+
+  afterEach(async () => {
+    watcher?.close();
+    watcher = null;
+    if (originalXdg === undefined) {
+      delete process.env.XDG_CONFIG_HOME;
+    } else {
+      process.env.XDG_CONFIG_HOME = originalXdg;
+    }
+    await rm(configHome, { recursive: true, force: true });
+  });
+
+  const startWatcher = async (onChange: (changes: ProfileChange[]) => void) => {
+    watcher = new ProfileWatcher(onChange, { debounceMs: 50 });
+    await watcher.start();
+    return watcher;
+  };
+
+  test("creates the profiles directory and reports profile edits", async () => {
+    const onChange = vi.fn();
+    await startWatcher(onChange);
+
+    await writeFile(join(configHome, "f5xc", "profiles", "staging.json"), "{}");
+
+    await vi.waitFor(() =>
+      expect(onChange).toHaveBeenCalledWith([{ type: "profile", name: "staging" }])
+    );
+  });
+
+  test("reports active_profile changes", async () => {
+    const onChange = vi.fn();
+    await startWatcher(onChange);
+
+    await writeFile(join(configHome, "f5xc", "active_profile"), "staging");
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledWith([{ type: "active" }]));
+  });
+
+  test("debounces bursts into one notification", async () => {
+    const onChange = vi.fn();
+    await startWatcher(onChange);
+    const profilesDir = join(configHome, "f5xc", "profiles");
+
+    await writeFile(join(profilesDir, "a.json"), "{}");
+    await writeFile(join(profilesDir, "a.json"), "{ }");
+    await writeFile(join(profilesDir, "b.yaml"), "name: b");
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalled());
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange.mock.calls[0][0]).toEqual([
+      { type: "profile", name: "a" },
+      { type: "profile", name: "b" },
+    ]);
+  });
+
+  test("ignores unrelated files and stops after close()", async () => {
+    const onChange = vi.fn();
+    const started = await startWatcher(onChange);
+    expect(started.isWatching()).toBe(true);
+
+    await writeFile(join(configHome, "f5xc", "config.yaml"), "x: 1");
+    await writeFile(join(configHome, "f5xc", "profiles", "notes.txt"), "x");
+    started.close();
+    await writeFile(join(configHome, "f5xc", "profiles", "late.json"), "{}");
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    expect(started.isWatching()).toBe(false);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
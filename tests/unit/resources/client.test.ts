@@ -0,0 +1,196 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Unit tests for ResourceClient
+ */
+
+import { describe, test, expect, beforeEach, vi } from "vitest";
+import { ResourceClient } from "../../../src/resources/client.js";
+import type { HttpClient } from "../../../src/auth/http-client.js";
+import type { CredentialManager } from "../../../src/auth/credential-manager.js";
+import {
+  AlreadyExistsError,
+  ConfigurationError,
+  ConflictError,
+  F5XCApiError,
+  NotFoundError,
+} from "../../../src/utils/errors.js";
+
+interface OriginPoolSpec {
+  port: number;
+}
+
+const ok = <T>(data: T) => ({ data, status: 200, headers: {}, duration: 1, retries: 0 });
+
+describe("ResourceClient", () => {
+  let httpClient: {
+    get: ReturnType<typeof vi.fn>;
+    post: ReturnType<typeof vi.fn>;
+    put: ReturnType<typeof vi.fn>;
+    delete: ReturnType<typeof vi.fn>;
+    paginate: ReturnType<typeof vi.fn>;
+  };
+  let credentialManager: { getNamespace: ReturnType<typeof vi.fn> };
+  let client: ResourceClient;
+
+  beforeEach(() => {
+    httpClient = {
+      get: vi.fn(),
+      post: vi.fn(),
+      put: vi.fn(),
+      delete: vi.fn().mockResolvedValue(ok({})),
+      paginate: vi.fn(),
+    };
+    credentialManager = { getNamespace: vi.fn().mockReturnValue("default-ns") };
+    client = new ResourceClient(
+      credentialManager as unknown as CredentialManager,
+      httpClient as unknown as HttpClient
+    );
+  });
+
+  test("list uses the default namespace and returns items", async () => {
+    httpClient.get.mockResolvedValue(ok({ items: [{ name: "pool-a", namespace: "default-ns" }] }));
+
+    const items = await client.list("origin_pools", { labelFilter: "app=web" });
+
+    expect(items).toEqual([{ name: "pool-a", namespace: "default-ns" }]);
+    expect(httpClient.get).toHaveBeenCalledWith("/config/namespaces/default-ns/origin_pools", {
+      signal: undefined,
+      deadline: undefined,
+      params: { label_filter: "app=web" },
+    });
+  });
+
+  test("iterate pages through a kind's objects", async () => {
+    httpClient.paginate.mockImplementation(async function* () {
+      yield { name: "pool-a", namespace: "default-ns" };
+      yield { name: "pool-b", namespace: "default-ns" };
+    });
+
+    const names: string[] = [];
+    for await (const item of client.iterate("origin_pools", { pageSize: 50, reportFields: true })) {
+      names.push(item.name);
+    }
+
+    expect(names).toEqual(["pool-a", "pool-b"]);
+    expect(httpClient.paginate).toHaveBeenCalledWith("/config/namespaces/default-ns/origin_pools", {
+      signal: undefined,
+      deadline: undefined,
+      params: { report_fields: "true" },
+      pageSize: 50,
+    });
+  });
+
+  test("iterate maps errors from later pages", async () => {
+    httpClient.paginate.mockImplementation(async function* () {
+      yield { name: "pool-a", namespace: "default-ns" };
+      throw new F5XCApiError("gone", 404);
+    });
+
+    const iterator = client.iterate("origin_pools");
+    await iterator.next();
+
+    await expect(iterator.next()).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  test("get returns the typed object from an explicit namespace", async () => {
+    const object = { metadata: { name: "pool-a", namespace: "shared" }, spec: { port: 443 } };
+    httpClient.get.mockResolvedValue(ok(object));
+
+    const result = await client.get<OriginPoolSpec>("origin_pools", "pool-a", { namespace: "shared" });
+
+    expect(result.spec.port).toBe(443);
+    expect(httpClient.get).toHaveBeenCalledWith(
+      "/config/namespaces/shared/origin_pools/pool-a",
+      expect.any(Object)
+    );
+  });
+
+  test("create fills in metadata.namespace", async () => {
+    httpClient.post.mockImplementation(async (_path, body) => ok(body));
+
+    await client.create<OriginPoolSpec>("origin_pools", {
+      metadata: { name: "pool-a" },
+      spec: { port: 80 },
+    });
+
+    expect(httpClient.post).toHaveBeenCalledWith(
+      "/config/namespaces/default-ns/origin_pools",
+      { metadata: { name: "pool-a", namespace: "default-ns" }, spec: { port: 80 } },
+      expect.any(Object)
+    );
+  });
+
+  test("replace uses the object's namespace", async () => {
+    httpClient.put.mockImplementation(async (_path, body) => ok(body));
+
+    await client.replace("origin_pools", {
+      metadata: { name: "pool-a", namespace: "team-a" },
+      spec: { port: 80 },
+    });
+
+    expect(httpClient.put).toHaveBeenCalledWith(
+      "/config/namespaces/team-a/origin_pools/pool-a",
+      expect.objectContaining({ metadata: { name: "pool-a", namespace: "team-a" } }),
+      expect.any(Object)
+    );
+  });
+
+  test("delete sends the delete request body", async () => {
+    await client.delete("origin_pools", "pool a", { failIfReferred: true });
+
+    expect(httpClient.delete).toHaveBeenCalledWith("/config/namespaces/default-ns/origin_pools/pool%20a", {
+      signal: undefined,
+      deadline: undefined,
+      data: { name: "pool a", namespace: "default-ns", fail_if_referred: true },
+    });
+  });
+
+  test("maps 404 to NotFoundError", async () => {
+    httpClient.get.mockRejectedValue(new F5XCApiError("not found", 404, { code: 5 }));
+
+    const error = await client.get("origin_pools", "missing").catch(e => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toBeInstanceOf(F5XCApiError);
+    expect(error.message).toBe("origin_pools 'missing' not found in namespace 'default-ns'");
+    expect(error.context).toMatchObject({ kind: "origin_pools", name: "missing" });
+  });
+
+  test("maps 409 to AlreadyExistsError", async () => {
+    httpClient.post.mockRejectedValue(new F5XCApiError("exists", 409));
+
+    await expect(
+      client.create("origin_pools", { metadata: { name: "pool-a" }, spec: {} })
+    ).rejects.toBeInstanceOf(AlreadyExistsError);
+  });
+
+  test("keeps conflicts outside create as ConflictError", async () => {
+    httpClient.put.mockRejectedValue(new ConflictError("resource version mismatch"));
+
+    const error = await client
+      .replace("origin_pools", { metadata: { name: "pool-a" }, spec: {} })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error).not.toBeInstanceOf(AlreadyExistsError);
+  });
+
+  test("passes other errors through", async () => {
+    const error = new F5XCApiError("forbidden", 403);
+    httpClient.get.mockRejectedValue(error);
+
+    await expect(client.list("origin_pools")).rejects.toBe(error);
+  });
+
+  test("requires a namespace when no default is configured", async () => {
+    credentialManager.getNamespace.mockReturnValue(null);
+
+    await expect(client.list("origin_pools")).rejects.toBeInstanceOf(ConfigurationError);
+    expect(httpClient.get).not.toHaveBeenCalled();
+  });
+
+  test("rejects kinds that are not API path segments", async () => {
+    await expect(client.get("../secrets", "x")).rejects.toBeInstanceOf(ConfigurationError);
+  });
+});
@@ -0,0 +1,197 @@
+// Copyright (c) 2026 Robin Mordasiewicz. MIT License.
+
+/**
+ * Unit tests for secret store backends and reference resolution
+ *
+ * - References: Parsing and detection of secret://store/name
+ * - Registry: Registration, default file store, resolution errors
+ * - MemorySecretStore: CRUD operations
+ * - FileSecretStore: CRUD operations, permissions, read errors, own-key lookup, encryption
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  FileSecretStore,
+  MemorySecretStore,
+  getSecretStore,
+  isSecretReference,
+  parseSecretReference,
+  registerSecretStore,
+  resolveSecret,
+  resolveSecretReference,
+  unregisterSecretStore,
+} from "../../../src/secrets/index.js";
+import { ProfileCipher } from "../../../src/profile/encryption.js";
+import { ConfigurationError } from "../../../src/utils/errors.js";
+
+describe("Secret stores", () => {
+  describe("References", () => {
+    test("detects secret references", () => {
+      expect(isSecretReference("secret://file/token")).toBe(true);
+      expect(isSecretReference("plain-token")).toBe(false);
+      expect(isSecretReference(undefined)).toBe(false);
+    });
+
+    test("parses store and name", () => {
+      expect(parseSecretReference("secret://vault/teams/prod-token")).toEqual({
+        store: "vault",
+        name: "teams/prod-token",
+      });
+    });
+
+    test("rejects references without a name", () => {
+      expect(parseSecretReference("secret://vault")).toBeNull();
+      expect(parseSecretReference("secret://vault/")).toBeNull();
+      expect(parseSecretReference("token")).toBeNull();
+    });
+  });
+
+  describe("Registry", () => {
+    afterEach(() => {
+      unregisterSecretStore("test");
+    });
+
+    test("resolves references through a registered store", async () => {
+      registerSecretStore("test", new MemorySecretStore({ token: "value" }));
+
+      expect(await resolveSecretReference("secret://test/token")).toBe("value");
+    });
+
+    test("returns plain values unchanged", async () => {
+      expect(await resolveSecret("plain")).toBe("plain");
+      expect(await resolveSecret(undefined)).toBeUndefined();
+    });
+
+    test("provides a default file store", () => {
+      expect(getSecretStore("file")).toBeInstanceOf(FileSecretStore);
+    });
+
+    test("throws for unregistered stores", async () => {
+      await expect(resolveSecretReference("secret://missing/token")).rejects.toThrow(
+        /not registered/
+      );
+    });
+
+    test("throws for missing secrets", async () => {
+      registerSecretStore("test", new MemorySecretStore());
+
+      await expect(resolveSecretReference("secret://test/token")).rejects.toThrow(
+        ConfigurationError
+      );
+    });
+
+    test("throws for malformed references", async () => {
+      await expect(resolveSecretReference("secret://test")).rejects.toThrow(
+        /Invalid secret reference/
+      );
+    });
+  });
+
+  describe("MemorySecretStore", () => {
+    test("supports set, get, list and delete", async () => {
+      const store = new MemorySecretStore({ b: "2" });
+      await store.set("a", "1");
+
+      expect(await store.get("a")).toBe("1");
+      expect(await store.list()).toEqual(["a", "b"]);
+      expect(await store.delete("a")).toBe(true);
+      expect(await store.delete("a")).toBe(false);
+      expect(await store.get("a")).toBeNull();
+    });
+  });
+
+  describe("FileSecretStore", () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "f5xc-secrets-"));
+      filePath = join(tempDir, "nested", "secrets.json");
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test("returns null and empty list when file does not exist", async () => {
+      const store = new FileSecretStore(filePath);
+
+      expect(await store.get("token")).toBeNull();
+      expect(await store.list()).toEqual([]);
+    });
+
+    test("persists secrets with owner-only permissions", async () => {
+      const store = new FileSecretStore(filePath);
+      await store.set("token", "value");
+
+      expect(await new FileSecretStore(filePath).get("token")).toBe("value");
+      expect(statSync(filePath).mode & 0o777).toBe(0o600);
+    });
+
+    test("deletes secrets", async () => {
+      const store = new FileSecretStore(filePath);
+      await store.set("token", "value");
+
+      expect(await store.delete("token")).toBe(true);
+      expect(await store.delete("token")).toBe(false);
+      expect(await store.list()).toEqual([]);
+    });
+
+    test("does not resolve inherited object properties as secrets", async () => {
+      const store = new FileSecretStore(filePath, null);
+      await store.set("token", "value");
+
+      expect(await store.get("constructor")).toBeNull();
+      expect(await store.get("toString")).toBeNull();
+      expect(await store.delete("hasOwnProperty")).toBe(false);
+    });
+
+    test("throws ConfigurationError for non-string values", async () => {
+      const numeric = join(tempDir, "numeric.json");
+      writeFileSync(numeric, JSON.stringify({ token: 42 }));
+
+      await expect(new FileSecretStore(numeric, null).get("token")).rejects.toThrow(
+        /is not a string/
+      );
+    });
+
+    test("throws ConfigurationError for corrupt secrets file", async () => {
+      const corrupt = join(tempDir, "corrupt.json");
+      writeFileSync(corrupt, "[1, 2]");
+
+      await expect(new FileSecretStore(corrupt).get("token")).rejects.toThrow(
+        /not valid JSON/
+      );
+    });
+
+    test("throws ConfigurationError for unreadable secrets file instead of losing secrets", async () => {
+      // A directory cannot be read as a file (EISDIR)
+      mkdirSync(filePath, { recursive: true });
+      const store = new FileSecretStore(filePath, null);
+
+      await expect(store.get("token")).rejects.toThrow(/Cannot read secrets file/);
+      await expect(store.set("token", "value")).rejects.toThrow(ConfigurationError);
+    });
+
+    test("encrypts values with the profile cipher when configured", async () => {
+      const cipher = new ProfileCipher({ passphrase: "test-passphrase" });
+      await new FileSecretStore(filePath, cipher).set("token", "secret-value");
+
+      expect(readFileSync(filePath, "utf-8")).not.toContain("secret-value");
+      expect(await new FileSecretStore(filePath, cipher).get("token")).toBe("secret-value");
+      await expect(new FileSecretStore(filePath, null).get("token")).rejects.toThrow(
+        /no decryption key is configured/
+      );
+    });
+
+    test("reads plaintext values when encryption is configured later", async () => {
+      await new FileSecretStore(filePath, null).set("token", "plain-value");
+
+      const cipher = new ProfileCipher({ passphrase: "test-passphrase" });
+      expect(await new FileSecretStore(filePath, cipher).get("token")).toBe("plain-value");
+    });
+  });
+});
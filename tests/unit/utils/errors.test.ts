@@ -7,8 +7,24 @@ import {
   F5XCApiError,
   ConfigurationError,
   SSLCertificateError,
+  RequestCancelledError,
+  DeadlineExceededError,
+  CircuitOpenError,
+  NotFoundError,
+  ConflictError,
+  AlreadyExistsError,
+  PermissionDeniedError,
+  UnauthenticatedError,
+  RateLimitedError,
+  ValidationFailedError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
+  createApiError,
+  createNetworkError,
   wrapSSLError,
 } from "../../../src/utils/errors.js";
+import { withCorrelationId } from "../../../src/utils/correlation.js";
 
 describe("F5XCError", () => {
   describe("Base Error Class", () => {
@@ -123,6 +139,104 @@ describe("F5XCApiError", () => {
   });
 });
 
+describe("F5XCApiError tracing", () => {
+  test("records the request ID from context and the current correlation ID", () => {
+    const error = withCorrelationId("tool-call-7", () =>
+      createApiError(500, { message: "internal" }, "failed", { requestId: "req-123" })
+    );
+
+    expect(error.requestId).toBe("req-123");
+    expect(error.correlationId).toBe("tool-call-7");
+    expect(error.toJSON()).toMatchObject({ requestId: "req-123", correlationId: "tool-call-7" });
+  });
+});
+
+describe("createApiError", () => {
+  test.each([
+    [401, UnauthenticatedError],
+    [403, PermissionDeniedError],
+    [404, NotFoundError],
+    [409, ConflictError],
+    [429, RateLimitedError],
+    [400, ValidationFailedError],
+    [422, ValidationFailedError],
+    [500, ServerError],
+    [503, ServerError],
+  ])("maps status %i to %O", (status, ErrorClass) => {
+    const error = createApiError(status, { message: "failed" }, "fallback");
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(F5XCApiError);
+    expect(error.status).toBe(status);
+    expect(error.message).toBe("failed");
+    expect(error.hint).toEqual(expect.any(String));
+  });
+
+  test("parses the F5 XC error payload", () => {
+    const body = { code: 5, message: "http_loadbalancer my-lb not found", details: [{ a: 1 }] };
+    const error = createApiError(404, body, "Request failed with status code 404");
+
+    expect(error.apiCode).toBe(5);
+    expect(error.details).toEqual([{ a: 1 }]);
+    expect(error.response).toBe(body);
+    expect(error.toJSON()).toMatchObject({ apiCode: 5, hint: error.hint });
+  });
+
+  test("uses the payload code to refine the class", () => {
+    expect(createApiError(409, { code: 6, message: "exists" }, "x")).toBeInstanceOf(AlreadyExistsError);
+    expect(createApiError(409, { message: "Object already exists" }, "x")).toBeInstanceOf(
+      AlreadyExistsError
+    );
+    expect(createApiError(undefined, { code: 7 }, "denied")).toBeInstanceOf(PermissionDeniedError);
+  });
+
+  test("falls back to the given message and a plain F5XCApiError", () => {
+    const error = createApiError(418, "", "Request failed with status code 418");
+
+    expect(error.constructor).toBe(F5XCApiError);
+    expect(error.message).toBe("Request failed with status code 418");
+    expect(error.hint).toBeUndefined();
+  });
+
+  test("reads nested and string error bodies", () => {
+    expect(createApiError(500, { error: { message: "nested" } }, "x").message).toBe("nested");
+    expect(createApiError(502, "Bad Gateway", "x").message).toBe("Bad Gateway");
+  });
+
+  test("ValidationFailedError collects field paths from details and the message", () => {
+    const error = createApiError(
+      400,
+      {
+        code: 3,
+        message: "Validation failed: spec.domains[0]: invalid hostname",
+        details: [
+          {
+            "@type": "type.googleapis.com/google.rpc.BadRequest",
+            field_violations: [{ field: "metadata.name", description: "must be lowercase" }],
+          },
+        ],
+      },
+      "x"
+    ) as ValidationFailedError;
+
+    expect(error.violations).toEqual([
+      { field: "metadata.name", description: "must be lowercase" },
+      { field: "spec.domains[0]" },
+    ]);
+    expect(error.fields).toEqual(["metadata.name", "spec.domains[0]"]);
+    expect(error.hint).toBe("Fix the rejected fields: metadata.name, spec.domains[0].");
+  });
+
+  test("RateLimitedError reports the server's retry delay", () => {
+    const error = createApiError(429, {}, "Too many requests", {
+      retryAfterMs: 2500,
+    }) as RateLimitedError;
+
+    expect(error.retryAfterMs).toBe(2500);
+    expect(error.hint).toMatch(/^Retry after 3s\./);
+  });
+});
+
 describe("ConfigurationError", () => {
   test("creates configuration error with proper code", () => {
     const error = new ConfigurationError("Invalid config");
@@ -140,6 +254,116 @@ describe("ConfigurationError", () => {
   });
 });
 
+describe("RequestCancelledError", () => {
+  test("creates cancellation error with proper code", () => {
+    const error = new RequestCancelledError("Request cancelled: GET /api/test");
+
+    expect(error.code).toBe("REQUEST_CANCELLED");
+    expect(error.name).toBe("RequestCancelledError");
+    expect(error).toBeInstanceOf(F5XCError);
+  });
+});
+
+describe("DeadlineExceededError", () => {
+  test("toJSON() includes the deadline", () => {
+    const error = new DeadlineExceededError("Request deadline of 500ms exceeded", 500, {
+      method: "GET",
+    });
+
+    expect(error.code).toBe("DEADLINE_EXCEEDED");
+    expect(error.toJSON()).toEqual({
+      name: "DeadlineExceededError",
+      message: "Request deadline of 500ms exceeded",
+      code: "DEADLINE_EXCEEDED",
+      context: { method: "GET" },
+      deadline: 500,
+    });
+  });
+});
+
+describe("CircuitOpenError", () => {
+  test("toJSON() includes endpoint and retryAfterMs", () => {
+    const error = new CircuitOpenError("Circuit open", "https://tenant.example.com", 1500);
+
+    expect(error.code).toBe("CIRCUIT_OPEN");
+    expect(error.toJSON()).toMatchObject({
+      name: "CircuitOpenError",
+      endpoint: "https://tenant.example.com",
+      retryAfterMs: 1500,
+    });
+  });
+});
+
+describe("createNetworkError", () => {
+  const url = "https://acme.console.ves.volterra.io/api";
+
+  test.each([
+    ["ENOTFOUND", "dns", false],
+    ["EAI_AGAIN", "dns", true],
+    ["ECONNREFUSED", "connection-refused", true],
+    ["EHOSTUNREACH", "unreachable", true],
+    ["ECONNRESET", "connection-reset", true],
+  ])("classifies %s as %s (retryable: %s)", (code, reason, retryable) => {
+    const error = createNetworkError({ code, message: `connect ${code}` }, { url });
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toBeInstanceOf(F5XCApiError);
+    expect(error.reason).toBe(reason);
+    expect(error.retryable).toBe(retryable);
+    expect(error.systemCode).toBe(code);
+    expect(error.status).toBeUndefined();
+    expect(error.hint).toBeDefined();
+  });
+
+  test("sanitizes the target host", () => {
+    const error = createNetworkError({ code: "ECONNREFUSED", message: "refused" }, { url });
+
+    expect(error.host).toContain("console.ves.volterra.io");
+    expect(error.host).not.toContain("acme");
+    expect(error.message).toBe(`Connection to ${error.host} refused (ECONNREFUSED)`);
+  });
+
+  test("does not retry a reset connection for non-idempotent methods", () => {
+    const error = createNetworkError(
+      { code: "ECONNRESET", message: "socket hang up" },
+      { url, method: "post" }
+    );
+
+    expect(error.retryable).toBe(false);
+  });
+
+  test("classifies proxy failures and points at proxy settings", () => {
+    const error = createNetworkError(
+      { code: "ERR_BAD_RESPONSE", message: "Proxy responded with 407" },
+      { url }
+    );
+
+    expect(error.reason).toBe("proxy");
+    expect(error.retryable).toBe(false);
+    expect(error.hint).toContain("HTTPS_PROXY");
+  });
+
+  test("returns a non-retryable TimeoutError for response timeouts", () => {
+    const error = createNetworkError(
+      { code: "ECONNABORTED", message: "timeout of 30000ms exceeded" },
+      { url, method: "get", timeout: 30000 }
+    );
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.reason).toBe("timeout");
+    expect(error.retryable).toBe(false);
+    expect(error.message).toContain("timed out after 30000ms");
+    expect(error.toJSON()).toMatchObject({ name: "TimeoutError", timeout: 30000 });
+  });
+
+  test("retries connect timeouts", () => {
+    const error = createNetworkError({ code: "ETIMEDOUT", message: "connect ETIMEDOUT" }, { url });
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.retryable).toBe(true);
+  });
+});
+
 describe("SSLCertificateError", () => {
   test("creates SSL error with hostname", () => {
     const error = new SSLCertificateError("Certificate mismatch", "tenant.example.com");
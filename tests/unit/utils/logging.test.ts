@@ -2,6 +2,7 @@
 
 import { describe, test, expect, beforeEach, afterEach, vi } from "vitest";
 import { LogLevel, logger, createLogger } from "../../../src/utils/logging.js";
+import { withCorrelationId } from "../../../src/utils/correlation.js";
 
 describe("Logger", () => {
   let stderrSpy: ReturnType<typeof vi.spyOn>;
@@ -251,6 +252,21 @@ describe("Logger", () => {
       expect(parsed.context).toEqual(context);
     });
 
+    test("includes the correlation ID of the current context", async () => {
+      const testLogger = createLogger({ json: true, timestamps: false });
+
+      await withCorrelationId("tool-call-1", async () => {
+        await Promise.resolve();
+        testLogger.info("Test message", { userId: 123 });
+      });
+      testLogger.info("Outside");
+
+      const inside = JSON.parse(stderrSpy.mock.calls[0][0] as string);
+      const outside = JSON.parse(stderrSpy.mock.calls[1][0] as string);
+      expect(inside.context).toEqual({ correlationId: "tool-call-1", userId: 123 });
+      expect(outside.context).toBeUndefined();
+    });
+
     test("includes timestamp in JSON when enabled", () => {
       const testLogger = createLogger({ json: true, timestamps: true });
 